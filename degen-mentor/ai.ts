@@ -1,7 +1,8 @@
 ﻿/**
  * AI Service Module
  * 
- * Provides unified access to language models through OpenRouter.
+ * Provides unified access to language models through a pluggable provider
+ * layer (OpenRouter by default, see providers.ts).
  * Implements dual-model architecture for text and vision capabilities.
  * 
  * Models:
@@ -9,18 +10,59 @@
  * - Vision/Charts: Gemini Flash (image analysis)
  * 
  * Features:
- * - SSE streaming with buffered updates
+ * - SSE streaming with buffered updates and progress events
+ * - Cancellation (/stop, new message) and stalled-stream detection
  * - Timeout handling with graceful degradation
+ * - Response length tiers (max_tokens per question, cut-off answers continued)
+ * - Retries with jittered backoff (Retry-After aware) and typed error codes
+ * - Model fallback chain with per-model circuit breaker
+ * - Token usage and cost accounting with daily budgets for free users
+ * - Per-user rate limits (text and vision buckets, tier-aware)
  * - Rate limit aware Telegram integration
- * - Context-aware personality system
+ * - Context-aware personality system (versioned prompt templates)
+ * - Multilingual replies (detected language or per-user preference)
+ * - Persistent conversation memory with rolling summaries
+ * - FAQ response cache for repeated standalone questions
+ * - Tool calling (Risk Radar scans, chart analysis) mid-conversation
+ * - Compliance guard for the RULES (no buy/sell calls or guarantees, NFA/DYOR)
+ * - Structured chart reads validated against a schema
+ * - Image format detection, size limits and optional downscaling
+ * - Multi-chart (multi-timeframe) comparison in one request
  */
 
 import { CryptoContext } from '../lib/contexts';
-
-// Configuration
-const API_KEY = process.env.OPENROUTER_API_KEY;
-const MODEL = 'deepseek/deepseek-chat';
-const VISION_MODEL = 'google/gemini-2.5-flash';
+import { getProvider, ProviderError, ProviderMessage, VisionImage } from './providers';
+import { runWithFallback } from './modelFallback';
+import { parseCompletionStream, ToolCallAccumulator } from './sseParser';
+import { StreamPage, StreamPaginator } from './telegramFormat';
+import { loadConversation, rememberExchange, trimHistoryToBudget } from './conversationMemory';
+import { getToolDefinitions, registerTool, runToolCalls, ToolContext } from './tools';
+import {
+    buildComparisonPrompt,
+    buildRepairPrompt,
+    ChartComparison,
+    ChartImageInput,
+    ChartRead,
+    ChartValidationResult,
+    parseChartComparison,
+    parseChartRead,
+    STRUCTURED_CHART_PROMPT
+} from './chartAnalysis';
+import { prepareVisionImage } from './imagePreprocess';
+import { formatPromptDate, hasPrompt, renderPrompt } from './prompts';
+import { ComplianceViolation, enforceCompliance } from './compliance';
+import {
+    closeTruncatedAnswer,
+    CONTINUATION_PROMPT,
+    describeLengthPlan,
+    LengthPlan,
+    planResponseLength
+} from './responseLength';
+import { cacheScope, isCacheableQuestion, lookupCachedResponse, storeCachedResponse } from './responseCache';
+import { hasNfaDisclaimer, LANGUAGE_NAMES, resolveLanguage, SupportedLanguage, t } from './language';
+import { checkDailyBudget, recordUsage, RequestUsage, UsageSummary, UserTier } from './usage';
+import { checkRateLimit, coolDownMessage, RateLimitBucket, RateLimitDecision } from './rateLimit';
+import { FlushPolicy, StreamEventListener, StreamProgress } from './streamEvents';
 
 // Chart analysis prompt for vision model
 const CHART_ANALYSIS_PROMPT = `You are a crypto chart analyst. Analyze this chart image and provide:
@@ -39,65 +81,271 @@ interface Message {
     content: string;
 }
 
+/**
+ * Error codes for requests that failed or were cut short:
+ * - rate_limited: per-user limit (rateLimit.ts) or upstream 429 after retries
+ * - budget_exceeded: the user's daily AI budget is spent
+ * - upstream_error: provider error status or network failure after retries
+ * - timeout: no answer (or no more tokens) within the time limit
+ * - auth: provider not configured or key rejected (401/403)
+ * - cancelled: the caller aborted the request
+ * - empty_response: the model answered with no content
+ * - invalid_output: structured output failed validation, even after repair
+ * - invalid_image: an attached image was rejected before the model call
+ * - invalid_request: bad input from the caller (e.g. too many charts)
+ * - internal: failure in our own code (prompt rendering, storage, ...)
+ */
+export type AIErrorCode =
+    | 'rate_limited'
+    | 'budget_exceeded'
+    | 'upstream_error'
+    | 'timeout'
+    | 'auth'
+    | 'cancelled'
+    | 'empty_response'
+    | 'invalid_output'
+    | 'invalid_image'
+    | 'invalid_request'
+    | 'internal';
+
 interface AIResponse {
     success: boolean;
-    content: string;
-    error?: string;
+    content: string; // On failure: the text to show the user
+    error?: AIErrorCode;
+    message?: string; // Detail on `error` (e.g. why a stream was cut short)
+    model?: string; // Model that actually produced the response
+    usage?: UsageSummary;
+    // 'truncated'/'cancelled' responses carry the partial text received so far
+    status?: 'complete' | 'truncated' | 'cancelled';
+    promptVersion?: string; // Prompt template versions used, e.g. "system@2"
+    compliance?: ComplianceViolation[]; // Rule violations found and how they were fixed
+    cached?: boolean; // Served from the FAQ response cache
+    language?: SupportedLanguage; // Reply language, for localised formatting
+    retryAfterMs?: number; // With rate_limited: when to try again, if known
 }
 
-interface OpenRouterResponse {
-    choices: Array<{
-        message: {
-            content: string;
-        };
-    }>;
-    usage?: {
-        total_tokens: number;
-    };
+/**
+ * Per-request options shared by all AI entry points.
+ */
+export interface AIRequestOptions {
+    userId?: string; // Enables the usage ledger and daily budget
+    tier?: UserTier; // Defaults to 'free'
+    signal?: AbortSignal; // Cancel the request (e.g. user sent /stop)
+    idleTimeoutMs?: number; // Streaming only: max gap between tokens
+    onEvent?: StreamEventListener; // Streaming only: started/delta/flush/tool-call/completed/error
+    flushPolicy?: Partial<FlushPolicy>; // Streaming only: how often onChunk/flush fire (default 1500ms)
+    memory?: boolean; // Use the stored conversation for userId (default true)
+    tools?: boolean; // Let the model call registered tools (default true)
+    images?: string[]; // Base64 images attached to the message, for chart tools
+    language?: SupportedLanguage; // Force the reply language (default: user preference, then detected)
+    cache?: boolean; // Serve/store FAQ answers from the response cache (default true)
+}
+
+// Abort a stream that stops sending tokens for this long
+const STREAM_IDLE_TIMEOUT = 20000;
+
+// Model round-trips allowed to request tools before it must answer
+const MAX_TOOL_ITERATIONS = 3;
+
+const BUDGET_EXCEEDED_MESSAGE = "You've used up today's free AI budget, ser. Come back tomorrow or upgrade to Pro.";
+const INVALID_OUTPUT_MESSAGE = "Couldn't read that chart properly. Try a clearer screenshot.";
+
+/**
+ * Check the caller's daily budget. Returns true when the request must be refused.
+ */
+async function isOverBudget(options: AIRequestOptions, logPrefix: string): Promise<boolean> {
+    if (!options.userId) return false;
+
+    const budget = await checkDailyBudget(options.userId, options.tier || 'free');
+    if (!budget.allowed) {
+        console.warn(`${logPrefix} Daily budget exhausted for user ${options.userId} ($${budget.spentUsd.toFixed(4)} of $${budget.limitUsd})`);
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Take rate limit tokens for the caller. Returns the refusal, or null when
+ * the request may go ahead.
+ */
+async function rateLimited(options: AIRequestOptions, bucket: RateLimitBucket, cost: number = 1): Promise<RateLimitDecision | null> {
+    if (!options.userId) return null;
+
+    const decision = await checkRateLimit(options.userId, options.tier || 'free', bucket, cost);
+    return decision.allowed ? null : decision;
+}
+
+/**
+ * Map a failed model call (after retries and fallbacks) to an error code
+ * and the message shown to the user.
+ */
+function describeFailure(error: any, logPrefix: string): { code: AIErrorCode; message: string; retryAfterMs?: number } {
+    if (error instanceof ProviderError && error.status) {
+        console.error(`${logPrefix} API error:`, error.status);
+
+        if (error.status === 401 || error.status === 403) {
+            return { code: 'auth', message: 'AI is not configured. Please contact support.' };
+        }
+        if (error.status === 429) {
+            return {
+                code: 'rate_limited',
+                message: 'AI is overloaded right now, ser. Try again in a moment.',
+                retryAfterMs: error.retryAfterMs
+            };
+        }
+        return { code: 'upstream_error', message: `AI returned error ${error.status}. Try again in a moment.` };
+    }
+
+    if (error?.name === 'AbortError') {
+        console.error(`${logPrefix} Request timed out`);
+        return { code: 'timeout', message: 'AI took too long to respond. Please try again.' };
+    }
+
+    console.error(`${logPrefix} Request failed:`, error?.message || error);
+    return { code: 'upstream_error', message: 'Something went wrong. Please try again.' };
+}
+
+/**
+ * Whether a request reads and writes the stored conversation.
+ * Callers that pass their own history keep managing it themselves.
+ */
+function usesMemory(options: AIRequestOptions, conversationHistory: Message[]): boolean {
+    return !!options.userId && options.memory !== false && conversationHistory.length === 0;
 }
 
-// Get current date for AI context
-const getCurrentDate = () => {
+/**
+ * Build the system prompt and message list for a text request.
+ * The system prompt is rendered from the prompt registry per request, so
+ * the date is always current. History is trimmed to a token budget;
+ * stored conversations also inject the rolling summary of older turns.
+ */
+async function buildMessages(
+    context: CryptoContext,
+    userMessage: string,
+    conversationHistory: Message[],
+    options: AIRequestOptions
+): Promise<{ messages: Message[]; promptVersion: string; lengthPlan: LengthPlan; language: SupportedLanguage; personalised: boolean }> {
+    let history = conversationHistory;
+    let summary = '';
+
+    if (usesMemory(options, conversationHistory)) {
+        const conversation = await loadConversation(options.userId!, context.name);
+        summary = conversation.summary;
+        history = conversation.turns.map(turn => ({ role: turn.role, content: turn.content }));
+    }
+
+    // A registered persona:<id> template overrides the context's own prompt
+    const personaTemplate = `persona:${context.id}`;
+    const persona = hasPrompt(personaTemplate) ? renderPrompt(personaTemplate, {}) : null;
+
+    const language = await resolveLanguage(userMessage, options.userId, options.language);
+    const lengthPlan = planResponseLength(userMessage, language);
+
     const now = new Date();
-    return `${now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
-};
-
-// Base system prompt with personality and guidelines
-const BASE_SYSTEM_PROMPT = `You are DEGEN MENTOR, an elite crypto-native AI trading psychology coach.
-
-IMPORTANT: Today's date is ${getCurrentDate()}. We are in the year 2025. The Bitcoin halving already happened in April 2024.
-
-PERSONALITY:
-- Speak like a crypto OG: ape, degen, rug, pump, moon, wagmi, ngmi, ser, fren, gm, based, rekt
-- Reference famous figures naturally: Satoshi, CZ, Vitalik, Michael Saylor
-- Be realistic about risks - reference FTX, Luna crashes
-- Dark humor about market crashes (we cope through memes)
-
-YOUR KNOWLEDGE:
-- Crypto legends: CZ ("If you can't hold, you won't be rich"), Saylor (Bitcoin maxi), Vitalik (ETH vision)
-- History: Mt Gox, Pizza Day, Luna collapse, FTX fraud, Bitcoin halvings
-- Trading: TA, support/resistance, RSI, MACD, whale tracking
-- DeFi: Uniswap, Aave, yield farming, rug pulls, audits
-
-DYNAMIC RESPONSE LENGTH:
-- SIMPLE questions (definitions, quick facts) -> 600-900 characters
-- MEDIUM questions (how-to, comparisons) -> 1000-1400 characters
-- COMPLEX questions (strategy, analysis) -> 1500-2000 characters
-- NEVER respond with less than 600 characters
-
-RESPONSE STYLE:
-- BE NATURAL - no rigid templates, vary your style
-- Use paragraphs with blank lines for readability
-- Bold key terms with *asterisks*
-- Mix formats: sometimes bullets, sometimes flowing text
-- End with an engaging question or thought
-- Include NFA somewhere naturally
-
-RULES:
-1. Never say "buy/sell" directly - use "consider", "look at"
-2. Always include NFA (Not Financial Advice)
-3. Encourage DYOR
-4. Focus on psychology & education`;
+    const system = renderPrompt('system', {
+        date: formatPromptDate(now),
+        year: String(now.getFullYear()),
+        language: LANGUAGE_NAMES[language],
+        personaEmoji: context.emoji,
+        personaName: context.name,
+        personaMode: context.name.toUpperCase(),
+        personaPrompt: persona ? persona.text : context.systemPrompt,
+        responseLength: describeLengthPlan(lengthPlan),
+        memory: summary ? `
+
+CONVERSATION SO FAR (summary of earlier messages with this user):
+${summary}` : ''
+    });
+
+    return {
+        messages: [
+            { role: 'system', content: system.text },
+            ...trimHistoryToBudget(history),
+            { role: 'user', content: userMessage }
+        ],
+        promptVersion: persona ? `${system.version},${persona.version}` : system.version,
+        lengthPlan,
+        language,
+        // Built from this user's history or summary: not shareable through the cache
+        personalised: history.length > 0 || summary.length > 0
+    };
+}
+
+/**
+ * Tool context and definitions for a request (empty when tools are off).
+ */
+function prepareTools(options: AIRequestOptions) {
+    const toolContext: ToolContext = {
+        userId: options.userId,
+        tier: options.tier,
+        images: options.images || [],
+        signal: options.signal
+    };
+    const tools = options.tools === false ? [] : getToolDefinitions(toolContext);
+    return { toolContext, tools };
+}
+
+/**
+ * Response cache scope for a request, or null when the cache is not used
+ * (opted out, images attached, or not a standalone FAQ question). A
+ * standalone question is looked up even when the user has history; only
+ * storing is skipped for answers built with it.
+ */
+function responseCacheScope(
+    context: CryptoContext,
+    userMessage: string,
+    options: AIRequestOptions,
+    promptVersion: string,
+    language: SupportedLanguage
+): string | null {
+    if (options.cache === false || options.images?.length || !isCacheableQuestion(userMessage)) {
+        return null;
+    }
+    return cacheScope(context.name, language, promptVersion);
+}
+
+/**
+ * Answer from the response cache, if there is a match. Cached answers cost
+ * nothing but still go into the user's conversation memory.
+ */
+async function cachedReply(
+    context: CryptoContext,
+    userMessage: string,
+    conversationHistory: Message[],
+    options: AIRequestOptions,
+    scope: string | null,
+    promptVersion: string,
+    language: SupportedLanguage
+): Promise<AIResponse | null> {
+    if (!scope) return null;
+
+    const cached = await lookupCachedResponse(scope, userMessage);
+    if (!cached) return null;
+
+    console.log(`[AI] Cache hit for ${context.name}: "${cached.question}"`);
+
+    if (usesMemory(options, conversationHistory)) {
+        await rememberExchange(options.userId!, context.name, userMessage, cached.content);
+    }
+
+    return {
+        success: true,
+        content: cached.content,
+        model: cached.model,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, estimated: false },
+        status: 'complete',
+        promptVersion,
+        cached: true,
+        language
+    };
+}
+
+/**
+ * Plain-text view of a conversation, for token estimation.
+ */
+function conversationText(messages: ProviderMessage[]): string {
+    return messages.map(m => typeof m.content === 'string' ? m.content : '').join('\n');
+}
 
 /**
  * Send a message to AI and get a response.
@@ -106,110 +354,175 @@ RULES:
 export async function chatWithAI(
     context: CryptoContext,
     userMessage: string,
-    conversationHistory: Message[] = []
+    conversationHistory: Message[] = [],
+    options: AIRequestOptions = {}
 ): Promise<AIResponse> {
-    if (!API_KEY) {
-        console.error('[AI] OpenRouter API key not configured');
+    const provider = getProvider();
+
+    if (!provider.isConfigured()) {
+        console.error(`[AI] ${provider.name} provider not configured`);
         return {
             success: false,
             content: 'AI is not configured. Please contact support.',
-            error: 'API key missing'
+            error: 'auth'
         };
     }
 
-    try {
-        // Build the full system prompt with context
-        const systemPrompt = `${BASE_SYSTEM_PROMPT}
+    const limited = await rateLimited(options, 'text');
+    if (limited) {
+        return {
+            success: false,
+            content: coolDownMessage(limited.retryAfterMs),
+            error: 'rate_limited',
+            retryAfterMs: limited.retryAfterMs
+        };
+    }
 
-CURRENT MODE: ${context.emoji} ${context.name}
-${context.systemPrompt}
+    if (await isOverBudget(options, '[AI]')) {
+        return {
+            success: false,
+            content: BUDGET_EXCEEDED_MESSAGE,
+            error: 'budget_exceeded'
+        };
+    }
 
-You are now in ${context.name.toUpperCase()} mode. Embody this perspective in your response.`;
+    try {
+        // Build the full system prompt with context and history
+        const { messages, promptVersion, lengthPlan, language, personalised } = await buildMessages(context, userMessage, conversationHistory, options);
 
-        // Prepare messages
-        const messages: Message[] = [
-            { role: 'system', content: systemPrompt },
-            ...conversationHistory.slice(-10), // Last 10 messages for context
-            { role: 'user', content: userMessage }
-        ];
+        const cacheKey = responseCacheScope(context, userMessage, options, promptVersion, language);
+        const cached = await cachedReply(context, userMessage, conversationHistory, options, cacheKey, promptVersion, language);
+        if (cached) {
+            return cached;
+        }
 
-        console.log(`[AI] Calling OpenRouter with ${context.name} context`);
-        console.log(`[AI] Using model: ${MODEL}`);
+        console.log(`[AI] Calling ${provider.name} with ${context.name} context (${promptVersion})`);
+        console.log(`[AI] Using model: ${provider.models.text}`);
 
-        // Add timeout to prevent hanging
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 30000);
+        const { toolContext, tools } = prepareTools(options);
+        const conversation: ProviderMessage[] = [...messages];
+        const spent = new RequestUsage({ userId: options.userId, persona: context.name, promptText: () => conversationText(conversation) });
+        let model = provider.models.text;
 
         try {
-            const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${API_KEY}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': 'https://degenmentor.bot',
-                    'X-Title': 'Degen Mentor Bot'
-                },
-                body: JSON.stringify({
-                    model: MODEL,
-                    messages,
-                    temperature: 0.7,
-                    max_tokens: 1500,
-                    top_p: 0.9
-                }),
-                signal: controller.signal
-            });
-
-            clearTimeout(timeout);
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                console.error('[AI] API error:', response.status);
-                return {
-                    success: false,
-                    content: `AI returned error ${response.status}. Try again in a moment.`,
-                    error: `API error: ${response.status}`
-                };
+            // 30s timeout per model attempt to prevent hanging
+            const callModel = (toolChoice: 'auto' | 'none', maxTokens: number = lengthPlan.maxTokens) =>
+                runWithFallback(provider, 'text', (model, signal) =>
+                    provider.chat({
+                        model,
+                        messages: conversation,
+                        temperature: 0.7,
+                        maxTokens,
+                        topP: 0.9,
+                        tools: tools.length > 0 ? tools : undefined,
+                        toolChoice,
+                        signal
+                    }), 30000, options.signal);
+
+            let attempt = await callModel('auto');
+            spent.round(attempt.value.usage, attempt.value.content);
+            model = attempt.model;
+
+            // Tool loop: run requested tools and feed results back. After
+            // MAX_TOOL_ITERATIONS the model has to answer with what it has.
+            for (let iteration = 1; attempt.value.toolCalls && iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+                const toolCalls = attempt.value.toolCalls;
+                console.log(`[AI] Model requested tools: ${toolCalls.map(call => call.function.name).join(', ')}`);
+
+                conversation.push({ role: 'assistant', content: attempt.value.content || null, tool_calls: toolCalls });
+                conversation.push(...await runToolCalls(toolCalls, toolContext));
+
+                attempt = await callModel(iteration < MAX_TOOL_ITERATIONS ? 'auto' : 'none');
+                spent.round(attempt.value.usage, attempt.value.content);
+                model = attempt.model;
             }
 
-            const data = await response.json() as OpenRouterResponse;
-            const content = data.choices?.[0]?.message?.content;
+            const { value: result } = attempt;
 
-            if (!content) {
+            if (!result.content) {
                 console.error('[AI] Empty response from API');
                 return {
                     success: false,
                     content: 'Got an empty response. Try rephrasing your question.',
-                    error: 'Empty response'
+                    error: 'empty_response',
+                    usage: await spent.record(model)
                 };
             }
 
-            // Log usage for cost tracking
-            if (data.usage) {
-                console.log(`[AI] Used ${data.usage.total_tokens} tokens`);
+            // Cut off by max_tokens: one short continuation, else close at the last full sentence
+            let answer = result.content;
+            if (result.finishReason === 'length') {
+                console.warn(`[AI] Answer hit max_tokens (${lengthPlan.tier} tier), continuing`);
+                conversation.push({ role: 'assistant', content: answer });
+                conversation.push({ role: 'user', content: CONTINUATION_PROMPT });
+
+                const continuation = await callModel('none', lengthPlan.continuationMaxTokens);
+                spent.round(continuation.value.usage, continuation.value.content);
+                model = continuation.model;
+                answer += continuation.value.content || '';
+
+                if (continuation.value.finishReason === 'length' || !continuation.value.content) {
+                    answer = closeTruncatedAnswer(answer);
+                }
+            }
+
+            // Enforce the RULES; badly off-policy answers are regenerated once
+            const guarded = await enforceCompliance(answer, {
+                userId: options.userId,
+                persona: context.name,
+                language,
+                regenerate: async feedback => {
+                    conversation.push({ role: 'assistant', content: answer });
+                    conversation.push({ role: 'user', content: feedback });
+                    const retry = await callModel('none');
+                    spent.round(retry.value.usage, retry.value.content);
+                    return retry.value.content || null;
+                }
+            });
+            const content = guarded.text;
+
+            // Track usage for cost accounting
+            const usage = await spent.record(model, content);
+
+            if (usesMemory(options, conversationHistory)) {
+                await rememberExchange(options.userId!, context.name, userMessage, content);
+            }
+
+            // Answers grounded in tool results (live scans) or the user's history are not shared
+            if (cacheKey && !personalised && !conversation.some(message => message.role === 'tool')) {
+                await storeCachedResponse(cacheKey, userMessage, content, model);
             }
 
             return {
                 success: true,
-                content
+                content,
+                model,
+                usage,
+                promptVersion,
+                compliance: guarded.violations,
+                language
             };
 
         } catch (error: any) {
-            clearTimeout(timeout);
-
-            if (error.name === 'AbortError') {
-                console.error('[AI] Request timed out after 30 seconds');
+            if (options.signal?.aborted) {
+                console.log('[AI] Request cancelled by caller');
                 return {
                     success: false,
-                    content: 'AI took too long to respond. Please try again.',
-                    error: 'Request timeout'
+                    content: '',
+                    error: 'cancelled',
+                    status: 'cancelled',
+                    usage: await spent.record(model)
                 };
             }
 
-            console.error('[AI] Request failed:', error.message || error);
+            const failure = describeFailure(error, '[AI]');
             return {
                 success: false,
-                content: 'Something went wrong. Please try again.',
-                error: error instanceof Error ? error.message : 'Unknown error'
+                content: failure.message,
+                error: failure.code,
+                retryAfterMs: failure.retryAfterMs,
+                usage: await spent.record(model)
             };
         }
     } catch (outerError: any) {
@@ -217,7 +530,7 @@ You are now in ${context.name.toUpperCase()} mode. Embody this perspective in yo
         return {
             success: false,
             content: 'AI service error. Please try again.',
-            error: outerError instanceof Error ? outerError.message : 'Unknown error'
+            error: 'internal'
         };
     }
 }
@@ -225,178 +538,316 @@ You are now in ${context.name.toUpperCase()} mode. Embody this perspective in yo
 /**
  * Stream AI response with real-time updates.
  * Uses Server-Sent Events (SSE) with buffered Telegram message updates.
+ *
+ * `onChunk` also receives the text split into Telegram-sized pages; when
+ * `page.rolledOver` is set the previous message is full and the bot should
+ * finish it with the last sealed page and continue in a new message.
+ *
+ * `options.onEvent` receives progress events (see streamEvents.ts) for
+ * typing indicators and token counts; `options.flushPolicy` controls how
+ * often onChunk fires.
  */
 export async function streamChatWithAI(
     context: CryptoContext,
     userMessage: string,
     conversationHistory: Message[] = [],
-    onChunk: (accumulatedText: string) => Promise<void>
+    onChunk: (accumulatedText: string, page: StreamPage) => Promise<void>,
+    options: AIRequestOptions = {}
 ): Promise<AIResponse> {
-    if (!API_KEY) {
-        console.error('[AI] OpenRouter API key not configured');
-        return {
+    const provider = getProvider();
+    const progress = new StreamProgress(options.onEvent, options.flushPolicy);
+
+    if (!provider.isConfigured()) {
+        console.error(`[AI] ${provider.name} provider not configured`);
+        return progress.finish({
             success: false,
             content: 'AI is not configured. Please contact support.',
-            error: 'API key missing'
-        };
+            error: 'auth'
+        });
     }
 
-    try {
-        const systemPrompt = `${BASE_SYSTEM_PROMPT}
+    const limited = await rateLimited(options, 'text');
+    if (limited) {
+        return progress.finish({
+            success: false,
+            content: coolDownMessage(limited.retryAfterMs),
+            error: 'rate_limited',
+            retryAfterMs: limited.retryAfterMs
+        });
+    }
 
-CURRENT MODE: ${context.emoji} ${context.name}
-${context.systemPrompt}
+    if (await isOverBudget(options, '[AI Stream]')) {
+        return progress.finish({
+            success: false,
+            content: BUDGET_EXCEEDED_MESSAGE,
+            error: 'budget_exceeded'
+        });
+    }
 
-You are now in ${context.name.toUpperCase()} mode. Embody this perspective in your response.`;
+    try {
+        const { messages, promptVersion, lengthPlan, language, personalised } = await buildMessages(context, userMessage, conversationHistory, options);
+
+        const cacheKey = responseCacheScope(context, userMessage, options, promptVersion, language);
+        const cached = await cachedReply(context, userMessage, conversationHistory, options, cacheKey, promptVersion, language);
+        if (cached) {
+            const page = new StreamPaginator().update(cached.content);
+            await progress.started(promptVersion, true);
+            await onChunk(cached.content, page);
+            await progress.flushed(cached.content, page, true);
+            return progress.finish(cached);
+        }
 
-        const messages: Message[] = [
-            { role: 'system', content: systemPrompt },
-            ...conversationHistory.slice(-10),
-            { role: 'user', content: userMessage }
-        ];
+        console.log(`[AI Stream] Calling ${provider.name} with ${context.name} context (${promptVersion})`);
+        await progress.started(promptVersion);
 
-        console.log(`[AI Stream] Calling OpenRouter with ${context.name} context`);
+        // Stream cancellation: caller's signal (/stop, new message) or no tokens for too long
+        const streamController = new AbortController();
+        const idleTimeoutMs = options.idleTimeoutMs ?? STREAM_IDLE_TIMEOUT;
+        let stopReason: 'cancelled' | 'idle' | null = null;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
 
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 90000);
+        const stop = (reason: 'cancelled' | 'idle') => {
+            stopReason = stopReason || reason;
+            streamController.abort();
+        };
+        const onCancel = () => stop('cancelled');
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => stop('idle'), idleTimeoutMs);
+        };
 
-        try {
-            const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${API_KEY}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': 'https://degenmentor.bot',
-                    'X-Title': 'Degen Mentor Bot'
-                },
-                body: JSON.stringify({
-                    model: MODEL,
-                    messages,
-                    temperature: 0.7,
-                    max_tokens: 1500,
-                    top_p: 0.9,
-                    stream: true
-                }),
-                signal: controller.signal
-            });
+        if (options.signal?.aborted) onCancel();
+        else options.signal?.addEventListener('abort', onCancel, { once: true });
+
+        const { toolContext, tools } = prepareTools(options);
+        const conversation: ProviderMessage[] = [...messages];
+        let model = provider.models.text;
+        let accumulatedContent = '';
+        const paginator = new StreamPaginator();
+        const spent = new RequestUsage({ userId: options.userId, persona: context.name, promptText: () => conversationText(conversation) });
+
+        // Send text to onChunk and flush listeners
+        const deliver = async (text: string, final: boolean) => {
+            const page = paginator.update(text);
+            await onChunk(text, page);
+            await progress.flushed(text, page, final);
+        };
 
-            clearTimeout(timeout);
+        // Return whatever arrived before the stream was cut short
+        const finishPartial = async (status: 'truncated' | 'cancelled', code: AIErrorCode, reason: string): Promise<AIResponse> => {
+            console.warn(`[AI Stream] Stream ${status} (${reason}) after ${accumulatedContent.length} chars`);
 
-            if (!response.ok) {
-                const errorData = await response.text();
-                console.error('[AI Stream] API error:', response.status);
-                return {
+            if (!accumulatedContent) {
+                return progress.finish({
                     success: false,
-                    content: `AI returned error ${response.status}. Try again.`,
-                    error: `API error: ${response.status}`
-                };
+                    content: status === 'cancelled' ? '' : 'AI stopped responding. Please try again.',
+                    error: code,
+                    message: reason,
+                    status,
+                    usage: await spent.record(model, '')
+                });
             }
 
-            // Process SSE stream
-            const reader = response.body?.getReader();
-            if (!reader) {
-                return {
-                    success: false,
-                    content: 'Could not read stream.',
-                    error: 'No reader'
-                };
+            // A cancelled reply is abandoned by the caller, a truncated one still gets shown
+            if (status === 'truncated') {
+                await deliver(accumulatedContent, true);
+
+                if (usesMemory(options, conversationHistory)) {
+                    await rememberExchange(options.userId!, context.name, userMessage, accumulatedContent);
+                }
             }
 
-            const decoder = new TextDecoder();
-            let accumulatedContent = '';
-            let lastUpdateTime = 0;
-            const UPDATE_INTERVAL = 1500; // Telegram rate limit
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const data = line.slice(6);
-                        if (data === '[DONE]') continue;
-
-                        try {
-                            const parsed = JSON.parse(data);
-                            const delta = parsed.choices?.[0]?.delta?.content;
-                            if (delta) {
-                                accumulatedContent += delta;
-
-                                // Rate-limited callback
-                                const now = Date.now();
-                                if (now - lastUpdateTime > UPDATE_INTERVAL && accumulatedContent.length > 50) {
-                                    await onChunk(accumulatedContent);
-                                    lastUpdateTime = now;
-                                }
-                            }
-                        } catch (e) {
-                            // Skip malformed JSON chunks
+            const usage = await spent.record(model, accumulatedContent);
+
+            return progress.finish({
+                success: true,
+                content: accumulatedContent,
+                error: code,
+                message: reason,
+                model,
+                usage,
+                status,
+                promptVersion,
+                language
+            });
+        };
+
+        try {
+            // Process SSE stream
+            // An answer cut off by max_tokens gets one continuation round
+            let continued = false;
+            let finishReason: string | undefined;
+
+            // Each iteration is one model round-trip; tool calls start another
+            for (let iteration = 0; ; iteration++) {
+                // After MAX_TOOL_ITERATIONS the model has to answer with what it has
+                const toolChoice = iteration < MAX_TOOL_ITERATIONS && !continued ? 'auto' : 'none';
+
+                // Fallback is only possible until the stream starts
+                const started = await runWithFallback(provider, 'text', (model, signal) =>
+                    provider.stream({
+                        model,
+                        messages: conversation,
+                        temperature: 0.7,
+                        maxTokens: continued ? lengthPlan.continuationMaxTokens : lengthPlan.maxTokens,
+                        topP: 0.9,
+                        tools: tools.length > 0 ? tools : undefined,
+                        toolChoice,
+                        signal
+                    }), 90000, streamController.signal);
+                model = started.model;
+                spent.round();
+
+                const pendingToolCalls = new ToolCallAccumulator();
+                let roundContent = '';
+                finishReason = undefined;
+
+                resetIdleTimer();
+
+                for await (const chunk of parseCompletionStream(started.value)) {
+                    resetIdleTimer();
+
+                    if (chunk.usage) {
+                        spent.add(chunk.usage);
+                    }
+
+                    if (chunk.toolCalls) {
+                        pendingToolCalls.add(chunk.toolCalls);
+                    }
+
+                    if (chunk.finishReason) {
+                        finishReason = chunk.finishReason;
+                    }
+
+                    if (chunk.delta) {
+                        accumulatedContent += chunk.delta;
+                        roundContent += chunk.delta;
+                        await progress.delta(chunk.delta, accumulatedContent);
+
+                        // Rate-limited callback (flush policy)
+                        if (progress.shouldFlush(accumulatedContent.length)) {
+                            await deliver(accumulatedContent, false);
                         }
                     }
                 }
-            }
 
-            // Final update with complete content
-            if (accumulatedContent) {
-                await onChunk(accumulatedContent);
+                const toolCalls = pendingToolCalls.finish();
+                if (toolCalls.length === 0 || toolChoice === 'none') {
+                    if (finishReason !== 'length' || continued || !roundContent) break;
+
+                    console.warn(`[AI Stream] Answer hit max_tokens (${lengthPlan.tier} tier), continuing`);
+                    continued = true;
+                    conversation.push({ role: 'assistant', content: roundContent });
+                    conversation.push({ role: 'user', content: CONTINUATION_PROMPT });
+                    continue;
+                }
+
+                // Tools can legitimately take longer than the idle timeout
+                clearTimeout(idleTimer);
+                console.log(`[AI Stream] Model requested tools: ${toolCalls.map(call => call.function.name).join(', ')}`);
+                await progress.toolCall(toolCalls.map(call => call.function.name));
+
+                conversation.push({ role: 'assistant', content: roundContent || null, tool_calls: toolCalls });
+                conversation.push(...await runToolCalls(toolCalls, toolContext));
             }
 
+            clearTimeout(idleTimer);
+
             if (!accumulatedContent) {
-                return {
+                return progress.finish({
                     success: false,
                     content: 'Got an empty response.',
-                    error: 'Empty stream'
-                };
+                    error: 'empty_response',
+                    usage: await spent.record(model, '')
+                });
             }
 
-            console.log(`[AI Stream] Complete. Length: ${accumulatedContent.length}`);
+            // Still cut off after the continuation: close at the last full sentence
+            if (finishReason === 'length') {
+                accumulatedContent = closeTruncatedAnswer(accumulatedContent, paginator.sealedLength);
+            }
 
-            return {
+            // Enforce the RULES; sealed pages were already delivered and stay as sent
+            const guarded = await enforceCompliance(accumulatedContent, {
+                userId: options.userId,
+                persona: context.name,
+                language,
+                preserveChars: paginator.sealedLength
+            });
+
+            // Final update with complete content
+            await deliver(guarded.text, true);
+
+            console.log(`[AI Stream] Complete. Length: ${guarded.text.length}`);
+
+            const usage = await spent.record(model, accumulatedContent);
+
+            if (usesMemory(options, conversationHistory)) {
+                await rememberExchange(options.userId!, context.name, userMessage, guarded.text);
+            }
+
+            // Answers grounded in tool results (live scans) or the user's history are not shared
+            if (cacheKey && !personalised && !conversation.some(message => message.role === 'tool')) {
+                await storeCachedResponse(cacheKey, userMessage, guarded.text, model);
+            }
+
+            return progress.finish({
                 success: true,
-                content: accumulatedContent
-            };
+                content: guarded.text,
+                model,
+                usage,
+                status: 'complete',
+                promptVersion,
+                compliance: guarded.violations,
+                language
+            });
 
         } catch (error: any) {
-            clearTimeout(timeout);
+            clearTimeout(idleTimer);
 
-            if (error.name === 'AbortError') {
-                console.error('[AI Stream] Request timed out');
-                return {
-                    success: false,
-                    content: 'AI took too long. Please try again.',
-                    error: 'Timeout'
-                };
+            if (stopReason === 'cancelled') {
+                return finishPartial('cancelled', 'cancelled', 'Cancelled by caller');
             }
 
-            console.error('[AI Stream] Error:', error.message || error);
-            return {
+            if (stopReason === 'idle') {
+                return finishPartial('truncated', 'timeout', `No tokens for ${idleTimeoutMs / 1000}s`);
+            }
+
+            // Upstream died mid-answer: keep what we have
+            if (accumulatedContent) {
+                return finishPartial('truncated', 'upstream_error', error.message || 'Stream interrupted');
+            }
+
+            const failure = describeFailure(error, '[AI Stream]');
+            return progress.finish({
                 success: false,
-                content: 'Something went wrong. Please try again.',
-                error: error.message || 'Unknown error'
-            };
+                content: failure.message,
+                error: failure.code,
+                retryAfterMs: failure.retryAfterMs,
+                usage: await spent.record(model, '')
+            });
+        } finally {
+            options.signal?.removeEventListener('abort', onCancel);
         }
     } catch (outerError: any) {
         console.error('[AI Stream] Outer error:', outerError.message || outerError);
-        return {
+        return progress.finish({
             success: false,
             content: 'AI service error. Please try again.',
-            error: outerError.message || 'Unknown error'
-        };
+            error: 'internal'
+        });
     }
 }
 
 /**
  * Format AI response with context header and disclaimer.
+ * Legacy Markdown, single message; see renderAIResponse in telegramFormat.ts
+ * for MarkdownV2 output split to Telegram's message limit.
  */
-export function formatAIResponse(content: string, context: CryptoContext): string {
+export function formatAIResponse(content: string, context: CryptoContext, language: SupportedLanguage = 'en'): string {
     const header = `${context.emoji} *${context.name}*\n\n`;
 
-    const hasNFA = content.toLowerCase().includes('nfa') ||
-        content.toLowerCase().includes('not financial advice');
-    const footer = hasNFA ? '' : '\n\n_NFA - Not Financial Advice_';
+    const footer = hasNfaDisclaimer(content) ? '' : `\n\n_${t(language, 'nfaFooter')}_`;
 
     return header + content + footer;
 }
@@ -407,102 +858,327 @@ export function formatAIResponse(content: string, context: CryptoContext): strin
 export interface VisionResponse {
     success: boolean;
     analysis: string;
-    error?: string;
+    error?: AIErrorCode;
+    message?: string; // On failure: the text to show the user
+    model?: string;
+    usage?: UsageSummary;
+    retryAfterMs?: number; // With rate_limited: when to try again, if known
+}
+
+/**
+ * Structured chart read (see chartAnalysis.ts). `analysis` carries the
+ * read's summary for display; `repaired` is set when the first output
+ * failed validation and was fixed by the repair pass.
+ */
+export interface StructuredChartResponse extends VisionResponse {
+    chart?: ChartRead;
+    repaired?: boolean;
 }
 
+/**
+ * Multi-chart read. `analysis` carries the combined verdict.
+ */
+export interface ChartComparisonResponse extends VisionResponse {
+    comparison?: ChartComparison;
+    repaired?: boolean;
+}
+
+// Vision providers accept a handful of images per request; more dilutes the read
+const MAX_COMPARISON_IMAGES = 4;
+
 /**
  * Analyze a chart image using vision model.
  * Optimized for technical analysis interpretation.
  */
-export async function analyzeChartImage(imageBase64: string): Promise<VisionResponse> {
-    if (!API_KEY) {
-        console.error('[Vision] OpenRouter API key not configured');
+export async function analyzeChartImage(
+    imageBase64: string,
+    options: AIRequestOptions = {}
+): Promise<VisionResponse> {
+    return requestVision(CHART_ANALYSIS_PROMPT, [imageBase64], { maxTokens: 300, persona: 'Chart Analysis' }, options);
+}
+
+/**
+ * Shared vision call: rate limit and budget checks, fallback chain, usage
+ * accounting and error mapping for every chart analysis mode.
+ */
+async function requestVision(
+    prompt: string,
+    imagesBase64: string[],
+    settings: { maxTokens: number; persona: string },
+    options: AIRequestOptions
+): Promise<VisionResponse> {
+    const provider = getProvider();
+
+    if (!provider.isConfigured()) {
+        console.error(`[Vision] ${provider.name} provider not configured`);
         return {
             success: false,
             analysis: '',
-            error: 'API key missing'
+            error: 'auth',
+            message: 'AI is not configured. Please contact support.'
         };
     }
 
-    console.log('[Vision] Analyzing chart image...');
-
-    try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 60000);
-
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${API_KEY}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': 'https://degenmentor.bot',
-                'X-Title': 'Degen Mentor Bot'
-            },
-            body: JSON.stringify({
-                model: VISION_MODEL,
-                messages: [{
-                    role: 'user',
-                    content: [
-                        { type: 'text', text: CHART_ANALYSIS_PROMPT },
-                        {
-                            type: 'image_url',
-                            image_url: {
-                                url: `data:image/jpeg;base64,${imageBase64}`
-                            }
-                        }
-                    ]
-                }],
-                max_tokens: 300,
-                temperature: 0.3
-            }),
-            signal: controller.signal
-        });
-
-        clearTimeout(timeout);
+    // One token per chart: a four-chart comparison costs as much as four reads
+    const limited = await rateLimited(options, 'vision', imagesBase64.length);
+    if (limited) {
+        return {
+            success: false,
+            analysis: coolDownMessage(limited.retryAfterMs),
+            error: 'rate_limited',
+            message: coolDownMessage(limited.retryAfterMs),
+            retryAfterMs: limited.retryAfterMs
+        };
+    }
 
-        if (!response.ok) {
-            console.error('[Vision] API error:', response.status);
+    const images: VisionImage[] = [];
+    for (const [index, imageBase64] of imagesBase64.entries()) {
+        const prepared = await prepareVisionImage(imageBase64);
+        if (!prepared.ok) {
+            console.warn(`[Vision] Image ${index + 1} rejected: ${prepared.error}`);
             return {
                 success: false,
                 analysis: '',
-                error: `API error: ${response.status}`
+                error: 'invalid_image',
+                message: imagesBase64.length > 1 ? `Image ${index + 1}: ${prepared.error}` : prepared.error
             };
         }
+        images.push(prepared.image);
+    }
+
+    if (await isOverBudget(options, '[Vision]')) {
+        return {
+            success: false,
+            analysis: '',
+            error: 'budget_exceeded',
+            message: BUDGET_EXCEEDED_MESSAGE
+        };
+    }
 
-        const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
-        const analysis = data.choices?.[0]?.message?.content;
+    console.log('[Vision] Analyzing chart image...');
+
+    try {
+        const { value: result, model } = await runWithFallback(provider, 'vision', (model, signal) =>
+            provider.vision({
+                model,
+                prompt,
+                images,
+                maxTokens: settings.maxTokens,
+                temperature: 0.3,
+                signal
+            }), 60000, options.signal);
+
+        const analysis = result.content;
 
         if (!analysis) {
             console.error('[Vision] Empty response from API');
             return {
                 success: false,
                 analysis: '',
-                error: 'Empty response'
+                error: 'empty_response',
+                message: 'Got an empty response. Try sending the chart again.'
             };
         }
 
         console.log(`[Vision] Analysis complete: ${analysis.slice(0, 100)}...`);
 
+        // Image tokens are not estimable from text, so unreported usage undercounts
+        const usage = await recordUsage({
+            userId: options.userId,
+            persona: settings.persona,
+            model,
+            reported: result.usage,
+            promptText: prompt,
+            completionText: analysis
+        });
+
         return {
             success: true,
-            analysis
+            analysis,
+            model,
+            usage
         };
 
     } catch (error: any) {
-        if (error.name === 'AbortError') {
-            console.error('[Vision] Request timed out');
+        if (options.signal?.aborted) {
+            console.log('[Vision] Request cancelled by caller');
             return {
                 success: false,
                 analysis: '',
-                error: 'Timeout'
+                error: 'cancelled'
             };
         }
 
-        console.error('[Vision] Error:', error.message || error);
+        const failure = describeFailure(error, '[Vision]');
         return {
             success: false,
             analysis: '',
-            error: error.message || 'Unknown error'
+            error: failure.code,
+            message: failure.message,
+            retryAfterMs: failure.retryAfterMs
         };
     }
 }
+
+/**
+ * Analyze a chart image into a typed ChartRead for storage and later
+ * comparison. Output that fails schema validation gets one repair pass
+ * on the text model (the observations are already made, only the shape
+ * needs fixing); if that also fails the request fails.
+ */
+export async function analyzeChartImageStructured(
+    imageBase64: string,
+    options: AIRequestOptions = {}
+): Promise<StructuredChartResponse> {
+    const read = await requestVision(STRUCTURED_CHART_PROMPT, [imageBase64], { maxTokens: 600, persona: 'Chart Analysis' }, options);
+    if (!read.success) {
+        return read;
+    }
+
+    const result = await validateWithRepair(read, parseChartRead, 'read', 'Chart Analysis', options);
+    const { value, ...response } = result;
+    if (!response.success || !value) {
+        return response;
+    }
+
+    return { ...response, analysis: value.summary, chart: value };
+}
+
+/**
+ * Read several charts in one request (e.g. a 1h and a 4h chart) and
+ * reconcile them: per-image reads plus a combined verdict.
+ */
+export async function compareChartImages(
+    inputs: ChartImageInput[],
+    options: AIRequestOptions = {}
+): Promise<ChartComparisonResponse> {
+    if (inputs.length === 0 || inputs.length > MAX_COMPARISON_IMAGES) {
+        return {
+            success: false,
+            analysis: '',
+            error: 'invalid_request',
+            message: `Send between 1 and ${MAX_COMPARISON_IMAGES} charts to compare`
+        };
+    }
+
+    const prompt = buildComparisonPrompt(inputs.map(input => input.caption));
+    const read = await requestVision(prompt, inputs.map(input => input.image), {
+        maxTokens: 400 + 300 * inputs.length,
+        persona: 'Chart Comparison'
+    }, options);
+    if (!read.success) {
+        return read;
+    }
+
+    const result = await validateWithRepair(read, text => parseChartComparison(text, inputs.length), 'comparison', 'Chart Comparison', options);
+    const { value, ...response } = result;
+    if (!response.success || !value) {
+        return response;
+    }
+
+    return { ...response, analysis: value.verdict, comparison: value };
+}
+
+/**
+ * Validate structured vision output, with one repair pass on failure.
+ * Repair usage is added to the vision call's usage.
+ */
+async function validateWithRepair<T>(
+    read: VisionResponse,
+    parse: (text: string) => ChartValidationResult<T>,
+    kind: 'read' | 'comparison',
+    persona: string,
+    options: AIRequestOptions
+): Promise<VisionResponse & { value?: T; repaired?: boolean }> {
+    const parsed = parse(read.analysis);
+    if (parsed.valid) {
+        return { ...read, value: parsed.value, repaired: false };
+    }
+
+    console.warn(`[Vision] Structured output invalid (${parsed.errors.join('; ')}), repairing...`);
+
+    const provider = getProvider();
+    const repairPrompt = buildRepairPrompt(read.analysis, parsed.errors, kind);
+
+    try {
+        const { value: result, model } = await runWithFallback(provider, 'text', (model, signal) =>
+            provider.chat({
+                model,
+                messages: [{ role: 'user', content: repairPrompt }],
+                maxTokens: 1500,
+                temperature: 0,
+                signal
+            }), 30000, options.signal);
+
+        const repairUsage = await recordUsage({
+            userId: options.userId,
+            persona,
+            model,
+            reported: result.usage,
+            promptText: repairPrompt,
+            completionText: result.content
+        });
+        const usage = read.usage && {
+            promptTokens: read.usage.promptTokens + repairUsage.promptTokens,
+            completionTokens: read.usage.completionTokens + repairUsage.completionTokens,
+            totalTokens: read.usage.totalTokens + repairUsage.totalTokens,
+            costUsd: read.usage.costUsd + repairUsage.costUsd,
+            estimated: read.usage.estimated || repairUsage.estimated
+        };
+
+        const repaired = parse(result.content);
+        if (!repaired.valid) {
+            console.error('[Vision] Repair failed:', repaired.errors.join('; '));
+            return {
+                success: false,
+                analysis: '',
+                error: 'invalid_output',
+                message: INVALID_OUTPUT_MESSAGE,
+                model: read.model,
+                usage
+            };
+        }
+
+        return { ...read, value: repaired.value, repaired: true, usage };
+
+    } catch (error: any) {
+        console.error('[Vision] Repair request failed:', error.message || error);
+        return {
+            success: false,
+            analysis: '',
+            ...(options.signal?.aborted
+                ? { error: 'cancelled' as const }
+                : { error: 'invalid_output' as const, message: INVALID_OUTPUT_MESSAGE }),
+            model: read.model,
+            usage: read.usage
+        };
+    }
+}
+
+// Chart analysis as a tool, so the mentor can read charts attached to a question
+registerTool({
+    name: 'analyze_chart_image',
+    description: 'Analyze a trading chart screenshot the user attached to their message ' +
+        '(trend, support/resistance, indicators, patterns).',
+    parameters: {
+        type: 'object',
+        properties: {
+            image_index: {
+                type: 'integer',
+                description: 'Zero-based index of the attached image to analyze'
+            }
+        },
+        required: ['image_index']
+    },
+    isAvailable: context => context.images.length > 0,
+    execute: async (args, context) => {
+        const index = typeof args.image_index === 'number' ? args.image_index : 0;
+        const image = context.images[index];
+        if (!image) {
+            return { error: `No attached image at index ${index}` };
+        }
+
+        const result = await analyzeChartImage(image, { userId: context.userId, tier: context.tier, signal: context.signal });
+        return result.success ? { analysis: result.analysis } : { error: result.message || result.error };
+    }
+});
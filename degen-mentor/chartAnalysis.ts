@@ -0,0 +1,303 @@
+/**
+ * Structured Chart Analysis
+ *
+ * Schema, prompt and validation for machine-readable chart reads, so they
+ * can be stored and compared later (same asset, different day/timeframe).
+ *
+ * The vision model is asked for JSON only; its output is extracted,
+ * validated and lightly normalised (numeric strings like "42,150" become
+ * numbers). Invalid output gets one repair pass in ai.ts.
+ */
+
+// Type definitions
+export type ChartTrend = 'bullish' | 'bearish' | 'sideways' | 'unclear';
+
+export interface ChartIndicator {
+    name: string; // e.g. "RSI", "MACD", "Volume"
+    reading: string; // e.g. "overbought at 74"
+}
+
+export interface ChartRead {
+    isChart: boolean;
+    asset: string | null;
+    timeframe: string | null;
+    trend: ChartTrend;
+    supportLevels: number[];
+    resistanceLevels: number[];
+    indicators: ChartIndicator[];
+    patterns: string[];
+    confidence: number; // 0-1
+    summary: string;
+}
+
+export type ChartAgreement = 'aligned' | 'mixed' | 'conflicting';
+
+export interface ChartComparison {
+    charts: ChartRead[]; // One read per image, in upload order
+    agreement: ChartAgreement;
+    verdict: string; // Combined read for the user
+}
+
+export interface ChartImageInput {
+    image: string; // Base64 or data: URL
+    caption?: string; // e.g. "1h", "4h after the breakout"
+}
+
+export type ChartValidationResult<T = ChartRead> =
+    | { valid: true; value: T }
+    | { valid: false; errors: string[] };
+
+const TRENDS: ChartTrend[] = ['bullish', 'bearish', 'sideways', 'unclear'];
+const AGREEMENTS: ChartAgreement[] = ['aligned', 'mixed', 'conflicting'];
+
+const CHART_READ_SCHEMA = `{
+  "isChart": boolean,
+  "asset": string | null,            // ticker or pair, e.g. "BTC/USDT"
+  "timeframe": string | null,        // e.g. "1h", "4h", "1D"
+  "trend": "bullish" | "bearish" | "sideways" | "unclear",
+  "supportLevels": number[],         // prices, nearest first
+  "resistanceLevels": number[],      // prices, nearest first
+  "indicators": [{ "name": string, "reading": string }],
+  "patterns": string[],              // e.g. "ascending triangle", "bull flag"
+  "confidence": number,              // 0 to 1
+  "summary": string                  // 1-2 sentences for the user
+}`;
+
+export const STRUCTURED_CHART_PROMPT = `You are a crypto chart analyst. Analyze this chart image.
+
+Respond with ONLY a JSON object matching this schema (no markdown, no commentary):
+${CHART_READ_SCHEMA}
+
+Rules:
+- Use null / [] when something is not visible - never guess price levels
+- Levels are plain numbers without currency symbols or separators
+- If this is not a chart, set isChart to false, trend to "unclear" and describe the image in summary`;
+
+const CHART_COMPARISON_SCHEMA = `{
+  "charts": [ <one object per image, in order, matching:
+${CHART_READ_SCHEMA}
+  > ],
+  "agreement": "aligned" | "mixed" | "conflicting",
+  "verdict": string                  // 2-3 sentences reconciling the charts
+}`;
+
+/**
+ * Prompt for reading several charts together (e.g. 1h + 4h of one asset).
+ */
+export function buildComparisonPrompt(captions: Array<string | undefined>): string {
+    const imageList = captions
+        .map((caption, index) => `- Image ${index + 1}${caption ? `: ${caption}` : ''}`)
+        .join('\n');
+
+    return `You are a crypto chart analyst. You are given ${captions.length} chart images:
+${imageList}
+
+Read each chart on its own, then reconcile them: do the timeframes/assets agree on direction and key levels?
+Lower timeframes often pull back inside a higher timeframe trend - say so when that is the case.
+
+Respond with ONLY a JSON object matching this schema (no markdown, no commentary):
+${CHART_COMPARISON_SCHEMA}
+
+Rules:
+- Use null / [] when something is not visible - never guess price levels
+- Levels are plain numbers without currency symbols or separators
+- "charts" must have exactly ${captions.length} entries`;
+}
+
+/**
+ * Prompt asking a text model to fix invalid output against the schema.
+ */
+export function buildRepairPrompt(
+    previousOutput: string,
+    errors: string[],
+    kind: 'read' | 'comparison' = 'read'
+): string {
+    return `The following chart analysis does not match the required JSON schema.
+
+Schema:
+${kind === 'comparison' ? CHART_COMPARISON_SCHEMA : CHART_READ_SCHEMA}
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Output to fix:
+${previousOutput}
+
+Respond with ONLY the corrected JSON object. Keep the original observations; do not invent new ones.`;
+}
+
+/**
+ * Pull the JSON object out of a model response (tolerates ``` fences and
+ * leading/trailing prose).
+ */
+function extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : text;
+
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new Error('No JSON object found');
+    }
+
+    return JSON.parse(candidate.slice(start, end + 1));
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+        const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+        if (Number.isFinite(parsed)) return parsed;
+    }
+    return null;
+}
+
+function toOptionalString(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Parse a model response into a JSON object.
+ */
+function parseObject(text: string): ChartValidationResult<any> {
+    let raw: any;
+    try {
+        raw = extractJson(text);
+    } catch (error: any) {
+        return { valid: false, errors: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { valid: false, errors: ['Response must be a JSON object'] };
+    }
+
+    return { valid: true, value: raw };
+}
+
+/**
+ * Parse and validate a model response against the ChartRead schema.
+ */
+export function parseChartRead(text: string): ChartValidationResult {
+    const parsed = parseObject(text);
+    return parsed.valid ? validateChartRead(parsed.value, '') : parsed;
+}
+
+/**
+ * Parse and validate a multi-chart response. `expectedCharts` is the
+ * number of images sent; a read per image is required.
+ */
+export function parseChartComparison(text: string, expectedCharts: number): ChartValidationResult<ChartComparison> {
+    const parsed = parseObject(text);
+    if (!parsed.valid) return parsed;
+
+    const raw = parsed.value;
+    const errors: string[] = [];
+    const charts: ChartRead[] = [];
+
+    if (!Array.isArray(raw.charts)) {
+        errors.push('charts must be an array');
+    } else {
+        if (raw.charts.length !== expectedCharts) {
+            errors.push(`charts must have exactly ${expectedCharts} entries (got ${raw.charts.length})`);
+        }
+        raw.charts.forEach((chart: unknown, index: number) => {
+            const result = chart && typeof chart === 'object' && !Array.isArray(chart)
+                ? validateChartRead(chart, `charts[${index}].`)
+                : { valid: false as const, errors: [`charts[${index}] must be an object`] };
+            if (result.valid) charts.push(result.value);
+            else errors.push(...result.errors);
+        });
+    }
+
+    const agreement = typeof raw.agreement === 'string' ? raw.agreement.toLowerCase() : raw.agreement;
+    if (!AGREEMENTS.includes(agreement)) errors.push(`agreement must be one of ${AGREEMENTS.join(', ')}`);
+
+    const verdict = toOptionalString(raw.verdict);
+    if (!verdict) errors.push('verdict must be a non-empty string');
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return { valid: true, value: { charts, agreement, verdict: verdict! } };
+}
+
+/**
+ * Validate one chart object; `path` prefixes error messages.
+ */
+function validateChartRead(raw: any, path: string): ChartValidationResult {
+    const errors: string[] = [];
+
+    if (typeof raw.isChart !== 'boolean') errors.push(path + 'isChart must be a boolean');
+
+    const trend = typeof raw.trend === 'string' ? raw.trend.toLowerCase() : raw.trend;
+    if (!TRENDS.includes(trend)) errors.push(path + `trend must be one of ${TRENDS.join(', ')}`);
+
+    const levels = (field: 'supportLevels' | 'resistanceLevels'): number[] => {
+        if (raw[field] === undefined || raw[field] === null) return [];
+        if (!Array.isArray(raw[field])) {
+            errors.push(path + `${field} must be an array of numbers`);
+            return [];
+        }
+        const numbers = raw[field].map(toNumber);
+        if (numbers.some((n: number | null) => n === null)) {
+            errors.push(path + `${field} must contain only numbers`);
+        }
+        return numbers.filter((n: number | null): n is number => n !== null);
+    };
+    const supportLevels = levels('supportLevels');
+    const resistanceLevels = levels('resistanceLevels');
+
+    let indicators: ChartIndicator[] = [];
+    if (raw.indicators !== undefined && raw.indicators !== null) {
+        if (!Array.isArray(raw.indicators)) {
+            errors.push(path + 'indicators must be an array');
+        } else {
+            indicators = raw.indicators
+                .map((indicator: any) => typeof indicator === 'string'
+                    ? { name: indicator, reading: '' }
+                    : { name: toOptionalString(indicator?.name), reading: toOptionalString(indicator?.reading) || '' })
+                .filter((indicator: { name: string | null }) => indicator.name);
+            if (indicators.length !== raw.indicators.length) {
+                errors.push(path + 'every indicator needs a name');
+            }
+        }
+    }
+
+    let patterns: string[] = [];
+    if (raw.patterns !== undefined && raw.patterns !== null) {
+        if (!Array.isArray(raw.patterns) || raw.patterns.some((p: unknown) => typeof p !== 'string')) {
+            errors.push(path + 'patterns must be an array of strings');
+        } else {
+            patterns = raw.patterns;
+        }
+    }
+
+    const confidence = toNumber(raw.confidence);
+    if (confidence === null || confidence < 0 || confidence > 1) {
+        errors.push(path + 'confidence must be a number between 0 and 1');
+    }
+
+    const summary = toOptionalString(raw.summary);
+    if (!summary) errors.push(path + 'summary must be a non-empty string');
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        value: {
+            isChart: raw.isChart,
+            asset: toOptionalString(raw.asset),
+            timeframe: toOptionalString(raw.timeframe),
+            trend,
+            supportLevels,
+            resistanceLevels,
+            indicators,
+            patterns,
+            confidence: confidence!,
+            summary: summary!
+        }
+    };
+}
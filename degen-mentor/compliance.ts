@@ -0,0 +1,252 @@
+/**
+ * Output Compliance Guard
+ *
+ * Post-generation checks for the mentor's RULES (system prompt), which
+ * the model does not always follow:
+ * - Direct buy/sell calls ("you should buy", "sell now")
+ * - Price guarantees ("guaranteed 10x", "will definitely hit $100k")
+ * - Missing NFA / DYOR
+ *
+ * Negated phrases are advice, not calls ("don't panic sell now", "nothing is
+ * guaranteed to pump") and are left alone.
+ *
+ * Remediation, mildest first:
+ * - Rewrite the offending phrase ("you should buy" → "you could consider buying")
+ * - Remove the sentence when no rewrite makes it compliant
+ * - Append the missing disclaimers
+ * - Regenerate once when an answer has too many violations to patch
+ *
+ * Every violation is logged with the action taken, for review.
+ */
+
+import { hasDyorReminder, hasNfaDisclaimer, SupportedLanguage, t } from './language';
+
+// Type definitions
+export type ComplianceRule = 'direct_call' | 'price_guarantee' | 'missing_nfa' | 'missing_dyor';
+
+export interface ComplianceViolation {
+    rule: ComplianceRule;
+    excerpt: string; // Offending sentence (empty for missing disclaimers)
+    action: 'rewritten' | 'removed' | 'appended' | 'regenerated' | 'logged';
+}
+
+export interface ComplianceResult {
+    text: string;
+    violations: ComplianceViolation[];
+    regenerated: boolean;
+}
+
+export interface ComplianceOptions {
+    userId?: string;
+    persona?: string;
+    // Produce a new answer given feedback on the violations; null on failure
+    regenerate?: (feedback: string) => Promise<string | null>;
+    // Leading characters already delivered (e.g. sealed stream pages); only logged, never changed
+    preserveChars?: number;
+    language?: SupportedLanguage; // Language of appended disclaimers (default en)
+}
+
+// Sentence-level violations at which patching is worse than regenerating
+const REGENERATE_THRESHOLD = 3;
+
+// "Sell pressure", "buy wall", "sell-off" describe the market, not a call
+const MARKET_NOUN = '(?!\\s*(?:-|pressure|side|walls?|orders?|volume|signals?|off|zones?|ratio|candles?)\\b)';
+
+const DIRECT_CALL_PATTERNS: RegExp[] = [
+    /\b(?:you should|you must|you need to|you have to|just|go)\s+(?:buy|sell)\b/i,
+    new RegExp(`\\b(?:buy|sell)\\b${MARKET_NOUN}\\s*(?:it|this|now|more|the dip|everything|immediately|here|asap)\\b`, 'i'),
+    /\bstrong\s+(?:buy|sell)\b/i,
+    new RegExp(`^\\s*(?:buy|sell)\\b${MARKET_NOUN}`, 'i')
+];
+
+// A negation up to two words before a match ("don't just buy", "never go sell", "not a strong buy")
+const NEGATED = /\b(?:\w+n['’]t|dont|cant|wont|cannot|never|not|no|nothing|without)(?:\s+[\w'’]+){0,2}\s*$/i;
+
+// Affirmative promises only: "nothing is guaranteed" and "no guarantees" are risk warnings
+const PRICE_GUARANTEE_PATTERNS: RegExp[] = [
+    /\bguaranteed\s+(?:to|(?:an?\s+)?\d+(?:\.\d+)?x|gains|profits?|returns?|money|pumps?|moon|win)\b/i,
+    /\bguarantees?\s+(?:you\s+)?(?:an?\s+)?(?:\d+(?:\.\d+)?x|gains|profits?|returns?|money|pumps?)\b/i,
+    /\b(?:i|we)\s+guarantee\b/i,
+    /\brisk[- ]free\b/i,
+    /\b(?:can'?t|cannot|won'?t)\s+(?:lose|go wrong|fail|go down)\b/i,
+    /\b100%\s+(?:sure|certain|safe|going to)\b/i,
+    /\bwill\s+(?:definitely|surely|certainly|100%)\s+\w+/i
+];
+
+// Applied in order; a sentence that still violates afterwards is removed
+const REWRITES: Array<[RegExp, string | ((substring: string, ...args: string[]) => string)]> = [
+    [/\b(?:you should|you must|you need to|you have to|just|go)\s+(buy|sell)\b/gi, (_, verb) => `you could consider ${gerund(verb)}`],
+    [/\bstrong\s+(buy|sell)\b/gi, 'setup worth a closer look'],
+    [new RegExp(`^(\\s*)(buy|sell)\\b${MARKET_NOUN}`, 'i'), (_, space, verb) => `${space}Consider ${gerund(verb)}`],
+    [new RegExp(`\\b(buy|sell)\\b${MARKET_NOUN}(?=\\s*(?:it|this|now|more|the dip|everything|immediately|here|asap)\\b)`, 'gi'), (_, verb) => `consider ${gerund(verb)}`],
+    [/\bwill\s+(?:definitely|surely|certainly|100%)\s+/gi, 'could '],
+    [/\b(is|are)\s+guaranteed\s+to\b/gi, 'might'],
+    [/\bguaranteed\s+(gains|profits?|returns?|money|pump)\b/gi, 'potential $1'],
+    [/\brisk[- ]free\b/gi, 'lower-risk']
+];
+
+function gerund(verb: string): string {
+    return verb.toLowerCase() === 'buy' ? 'buying' : 'selling';
+}
+
+function isNegated(before: string): boolean {
+    return NEGATED.test(before);
+}
+
+/**
+ * True when the pattern matches somewhere the match is not negated.
+ */
+function matchesAffirmative(sentence: string, pattern: RegExp): boolean {
+    const all = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    for (const match of sentence.matchAll(all)) {
+        if (!isNegated(sentence.slice(0, match.index))) return true;
+    }
+    return false;
+}
+
+function sentenceRule(sentence: string): ComplianceRule | null {
+    if (DIRECT_CALL_PATTERNS.some(pattern => matchesAffirmative(sentence, pattern))) return 'direct_call';
+    if (PRICE_GUARANTEE_PATTERNS.some(pattern => matchesAffirmative(sentence, pattern))) return 'price_guarantee';
+    return null;
+}
+
+/**
+ * Apply one rewrite, leaving negated matches untouched. String
+ * replacements support $1-style group references.
+ */
+function rewrite(sentence: string, pattern: RegExp, replacement: string | ((substring: string, ...args: string[]) => string)): string {
+    return sentence.replace(pattern, (match: string, ...args: unknown[]) => {
+        const offsetIndex = args.findIndex(arg => typeof arg === 'number');
+        const groups = args.slice(0, offsetIndex).map(group => typeof group === 'string' ? group : '');
+        if (isNegated(sentence.slice(0, args[offsetIndex] as number))) return match;
+
+        return typeof replacement === 'string'
+            ? replacement.replace(/\$(\d)/g, (_, index) => groups[Number(index) - 1] ?? '')
+            : replacement(match, ...groups);
+    });
+}
+
+// Sentences with their trailing punctuation; separators are left in place
+const SENTENCE = /[^.!?\n]+[.!?]*/g;
+
+/**
+ * Detect violations without changing anything.
+ */
+export function checkCompliance(text: string): ComplianceViolation[] {
+    const violations: ComplianceViolation[] = [];
+
+    for (const sentence of text.match(SENTENCE) || []) {
+        const rule = sentenceRule(sentence);
+        if (rule) violations.push({ rule, excerpt: sentence.trim(), action: 'logged' });
+    }
+
+    if (!hasNfaDisclaimer(text)) {
+        violations.push({ rule: 'missing_nfa', excerpt: '', action: 'logged' });
+    }
+    if (!hasDyorReminder(text)) {
+        violations.push({ rule: 'missing_dyor', excerpt: '', action: 'logged' });
+    }
+
+    return violations;
+}
+
+/**
+ * Rewrite or remove non-compliant sentences and append missing disclaimers.
+ */
+function patch(text: string, preserveChars: number, language: SupportedLanguage): { text: string; violations: ComplianceViolation[] } {
+    const violations: ComplianceViolation[] = [];
+    const preserved = text.slice(0, preserveChars);
+
+    for (const sentence of preserved.match(SENTENCE) || []) {
+        const rule = sentenceRule(sentence);
+        if (rule) violations.push({ rule, excerpt: sentence.trim(), action: 'logged' });
+    }
+
+    const patched = text.slice(preserveChars).replace(SENTENCE, sentence => {
+        const rule = sentenceRule(sentence);
+        if (!rule) return sentence;
+
+        let rewritten = sentence;
+        for (const [pattern, replacement] of REWRITES) {
+            rewritten = rewrite(rewritten, pattern, replacement);
+        }
+        // Keep sentence-initial capitals ("You should buy" → "You could consider buying")
+        rewritten = rewritten.replace(/^(\s*)([a-z])/, (match, space, letter) =>
+            /^\s*[A-Z]/.test(sentence) ? space + letter.toUpperCase() : match);
+
+        if (!sentenceRule(rewritten)) {
+            violations.push({ rule, excerpt: sentence.trim(), action: 'rewritten' });
+            return rewritten;
+        }
+
+        violations.push({ rule, excerpt: sentence.trim(), action: 'removed' });
+        return '';
+    });
+
+    let result = (preserved + patched.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n')).trimEnd();
+    if (!preserved) result = result.trimStart(); // A removed first sentence leaves its separator behind
+
+    const missingNfa = !hasNfaDisclaimer(result);
+    const missingDyor = !hasDyorReminder(result);
+
+    if (missingNfa) violations.push({ rule: 'missing_nfa', excerpt: '', action: 'appended' });
+    if (missingDyor) violations.push({ rule: 'missing_dyor', excerpt: '', action: 'appended' });
+
+    if (missingNfa && missingDyor) {
+        result += `\n\n${t(language, 'disclaimerBoth')}`;
+    } else if (missingNfa) {
+        result += `\n\n${t(language, 'disclaimerNfa')}`;
+    } else if (missingDyor) {
+        result += `\n\n${t(language, 'disclaimerDyor')}`;
+    }
+
+    return { text: result, violations };
+}
+
+function logViolations(violations: ComplianceViolation[], options: ComplianceOptions): void {
+    for (const violation of violations) {
+        console.warn('[Compliance]', JSON.stringify({
+            userId: options.userId,
+            persona: options.persona,
+            rule: violation.rule,
+            action: violation.action,
+            excerpt: violation.excerpt.slice(0, 200)
+        }));
+    }
+}
+
+/**
+ * Make an answer compliant. Regenerates once (when `regenerate` is given)
+ * if the answer has REGENERATE_THRESHOLD or more offending sentences;
+ * the regenerated answer is then patched like any other.
+ */
+export async function enforceCompliance(text: string, options: ComplianceOptions = {}): Promise<ComplianceResult> {
+    const found = checkCompliance(text);
+    const sentenceViolations = found.filter(v => v.rule === 'direct_call' || v.rule === 'price_guarantee');
+
+    if (options.regenerate && !options.preserveChars && sentenceViolations.length >= REGENERATE_THRESHOLD) {
+        const feedback = 'Your previous answer broke the rules: never tell the user to buy or sell directly ' +
+            'and never guarantee prices or returns. Offending sentences:\n' +
+            sentenceViolations.map(v => `- ${v.excerpt}`).join('\n') +
+            '\n\nRewrite the answer following the RULES. Include NFA and encourage DYOR.';
+
+        const regenerated = await options.regenerate(feedback).catch((error: any) => {
+            console.error('[Compliance] Regeneration failed:', error.message || error);
+            return null;
+        });
+
+        if (regenerated) {
+            const patched = patch(regenerated, 0, options.language || 'en');
+            const violations = [
+                ...sentenceViolations.map(v => ({ ...v, action: 'regenerated' as const })),
+                ...patched.violations
+            ];
+            logViolations(violations, options);
+            return { text: patched.text, violations, regenerated: true };
+        }
+    }
+
+    const patched = patch(text, options.preserveChars || 0, options.language || 'en');
+    logViolations(patched.violations, options);
+    return { text: patched.text, violations: patched.violations, regenerated: false };
+}
@@ -0,0 +1,309 @@
+/**
+ * Conversation Memory
+ *
+ * Persistent per-user, per-persona chat history so coaching sessions keep
+ * their context across messages and restarts.
+ *
+ * How it works:
+ * 1. Every exchange (user message + reply) is appended to the store
+ * 2. History sent to the model is trimmed to a token budget, newest first
+ * 3. When stored turns outgrow the budget, the oldest ones are folded into
+ *    a rolling summary by the text model and deleted
+ * 4. The summary is injected into the system prompt on the next request
+ *
+ * Storage:
+ * - InMemoryConversationStore: default, single-process (dev/tests)
+ * - PostgresConversationStore: production
+ */
+
+import { getProvider } from './providers';
+import { runWithFallback } from './modelFallback';
+import { estimateTokens, recordUsage } from './usage';
+import { SqlClient } from './storage';
+
+// Type definitions
+export interface ConversationTurn {
+    id?: number; // Assigned by the store, increasing in append order
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: number;
+}
+
+export interface ConversationState {
+    summary: string;
+    turns: ConversationTurn[]; // Oldest first
+}
+
+/**
+ * Conversation storage contract. Keyed by user and persona so switching
+ * modes does not mix coaching threads.
+ */
+export interface ConversationStore {
+    load(userId: string, persona: string): Promise<ConversationState>;
+    append(userId: string, persona: string, turns: ConversationTurn[]): Promise<void>;
+    /**
+     * Replace the summary and drop the turns up to and including `throughId`
+     * (the last turn the summary covers). Turns appended since stay.
+     */
+    compact(userId: string, persona: string, summary: string, throughId: number): Promise<void>;
+    clear(userId: string, persona: string): Promise<void>;
+}
+
+// Token budgets
+const HISTORY_TOKEN_BUDGET = 2000; // History sent with each request
+// Stored turns above this get summarised. No larger than the history budget:
+// a turn that no longer fits the history must already be in the summary
+const SUMMARY_TRIGGER_TOKENS = HISTORY_TOKEN_BUDGET;
+const KEEP_RECENT_TOKENS = 1000; // Verbatim turns kept after summarising
+const MIN_KEEP_TURNS = 2;
+
+const SUMMARY_PROMPT = `You maintain the memory of a crypto trading psychology coach.
+Merge the existing summary and the new conversation excerpt into one updated summary.
+Keep: the user's holdings, positions, goals, risk tolerance, emotional patterns, and advice already given.
+Drop: greetings, filler, and anything superseded.
+Write at most 120 words in plain third-person notes. No markdown.`;
+
+/**
+ * In-memory store (lost on restart).
+ */
+export class InMemoryConversationStore implements ConversationStore {
+    private conversations = new Map<string, ConversationState>();
+    private nextId = 1;
+
+    private key(userId: string, persona: string): string {
+        return `${userId}:${persona}`;
+    }
+
+    async load(userId: string, persona: string): Promise<ConversationState> {
+        const state = this.conversations.get(this.key(userId, persona));
+        return state ? { summary: state.summary, turns: [...state.turns] } : { summary: '', turns: [] };
+    }
+
+    async append(userId: string, persona: string, turns: ConversationTurn[]): Promise<void> {
+        const key = this.key(userId, persona);
+        const state = this.conversations.get(key) || { summary: '', turns: [] };
+        state.turns.push(...turns.map(turn => ({ ...turn, id: this.nextId++ })));
+        this.conversations.set(key, state);
+    }
+
+    async compact(userId: string, persona: string, summary: string, throughId: number): Promise<void> {
+        const key = this.key(userId, persona);
+        const state = this.conversations.get(key) || { summary: '', turns: [] };
+        state.summary = summary;
+        state.turns = state.turns.filter(turn => (turn.id ?? 0) > throughId);
+        this.conversations.set(key, state);
+    }
+
+    async clear(userId: string, persona: string): Promise<void> {
+        this.conversations.delete(this.key(userId, persona));
+    }
+}
+
+/**
+ * Postgres store.
+ *
+ * Tables: ai_conversation_turns and ai_conversation_summaries (migrations/0001_ai_stores.sql)
+ */
+export class PostgresConversationStore implements ConversationStore {
+    // Safety cap; compaction normally keeps far fewer
+    private readonly MAX_LOADED_TURNS = 200;
+
+    constructor(private readonly sql: SqlClient) {}
+
+    async load(userId: string, persona: string): Promise<ConversationState> {
+        const [summaryResult, turnsResult] = await Promise.all([
+            this.sql.query<{ summary: string }>(
+                `SELECT summary FROM ai_conversation_summaries WHERE user_id = $1 AND persona = $2`,
+                [userId, persona]
+            ),
+            this.sql.query<{ id: string | number; role: 'user' | 'assistant'; content: string; created_at: Date }>(
+                `SELECT id, role, content, created_at FROM (
+                     SELECT id, role, content, created_at
+                     FROM ai_conversation_turns
+                     WHERE user_id = $1 AND persona = $2
+                     ORDER BY id DESC
+                     LIMIT $3
+                 ) recent
+                 ORDER BY id ASC`,
+                [userId, persona, this.MAX_LOADED_TURNS]
+            )
+        ]);
+
+        return {
+            summary: summaryResult.rows[0]?.summary || '',
+            turns: turnsResult.rows.map(row => ({
+                id: Number(row.id), // BIGSERIAL arrives as a string
+                role: row.role,
+                content: row.content,
+                createdAt: new Date(row.created_at).getTime()
+            }))
+        };
+    }
+
+    async append(userId: string, persona: string, turns: ConversationTurn[]): Promise<void> {
+        for (const turn of turns) {
+            await this.sql.query(
+                `INSERT INTO ai_conversation_turns (user_id, persona, role, content, created_at)
+                 VALUES ($1, $2, $3, $4, to_timestamp($5::double precision / 1000.0))`,
+                [userId, persona, turn.role, turn.content, turn.createdAt]
+            );
+        }
+    }
+
+    async compact(userId: string, persona: string, summary: string, throughId: number): Promise<void> {
+        await this.sql.query(
+            `INSERT INTO ai_conversation_summaries (user_id, persona, summary, updated_at)
+             VALUES ($1, $2, $3, NOW())
+             ON CONFLICT (user_id, persona) DO UPDATE SET summary = EXCLUDED.summary, updated_at = NOW()`,
+            [userId, persona, summary]
+        );
+        await this.sql.query(
+            `DELETE FROM ai_conversation_turns
+             WHERE user_id = $1 AND persona = $2 AND id <= $3`,
+            [userId, persona, throughId]
+        );
+    }
+
+    async clear(userId: string, persona: string): Promise<void> {
+        await this.sql.query(
+            `DELETE FROM ai_conversation_turns WHERE user_id = $1 AND persona = $2`,
+            [userId, persona]
+        );
+        await this.sql.query(
+            `DELETE FROM ai_conversation_summaries WHERE user_id = $1 AND persona = $2`,
+            [userId, persona]
+        );
+    }
+}
+
+let conversationStore: ConversationStore = new InMemoryConversationStore();
+
+// Conversations currently being summarised (avoid duplicate summary calls)
+const summarising = new Set<string>();
+
+/**
+ * Replace the conversation backend (e.g. PostgresConversationStore in production).
+ */
+export function setConversationStore(store: ConversationStore): void {
+    conversationStore = store;
+}
+
+export function getConversationStore(): ConversationStore {
+    return conversationStore;
+}
+
+/**
+ * Keep the newest messages that fit in `budgetTokens` (oldest first).
+ */
+export function trimHistoryToBudget<T extends { content: string }>(
+    messages: T[],
+    budgetTokens: number = HISTORY_TOKEN_BUDGET
+): T[] {
+    const kept: T[] = [];
+    let used = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const tokens = estimateTokens(messages[i].content);
+        if (used + tokens > budgetTokens) break;
+        kept.unshift(messages[i]);
+        used += tokens;
+    }
+
+    return kept;
+}
+
+/**
+ * Load the stored summary and budget-trimmed history for a conversation.
+ * Storage errors degrade to an empty history.
+ */
+export async function loadConversation(userId: string, persona: string): Promise<ConversationState> {
+    try {
+        const state = await conversationStore.load(userId, persona);
+        return { summary: state.summary, turns: trimHistoryToBudget(state.turns) };
+    } catch (error: any) {
+        console.error('[Memory] Failed to load conversation:', error.message || error);
+        return { summary: '', turns: [] };
+    }
+}
+
+/**
+ * Store an exchange and, if the conversation has grown past its budget,
+ * fold the oldest turns into the rolling summary. Summarisation runs off
+ * the hot path; errors are logged, never thrown.
+ */
+export async function rememberExchange(
+    userId: string,
+    persona: string,
+    userMessage: string,
+    reply: string
+): Promise<void> {
+    const now = Date.now();
+
+    try {
+        await conversationStore.append(userId, persona, [
+            { role: 'user', content: userMessage, createdAt: now },
+            { role: 'assistant', content: reply, createdAt: now }
+        ]);
+    } catch (error: any) {
+        console.error('[Memory] Failed to store exchange:', error.message || error);
+        return;
+    }
+
+    summariseIfNeeded(userId, persona).catch(error => {
+        console.error('[Memory] Summarisation failed:', error.message || error);
+    });
+}
+
+async function summariseIfNeeded(userId: string, persona: string): Promise<void> {
+    const key = `${userId}:${persona}`;
+    if (summarising.has(key)) return;
+
+    const state = await conversationStore.load(userId, persona);
+    const totalTokens = state.turns.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+    if (totalTokens <= SUMMARY_TRIGGER_TOKENS) return;
+
+    summarising.add(key);
+
+    try {
+        const keepTurns = Math.max(MIN_KEEP_TURNS, trimHistoryToBudget(state.turns, KEEP_RECENT_TOKENS).length);
+        const older = state.turns.slice(0, state.turns.length - keepTurns);
+        // Compaction stops at the last summarised turn: turns stored while the
+        // summary call runs must not push unsummarised turns out
+        const throughId = older[older.length - 1]?.id;
+        if (older.length === 0 || throughId === undefined) return;
+
+        const excerpt = older
+            .map(turn => `${turn.role === 'user' ? 'User' : 'Coach'}: ${turn.content}`)
+            .join('\n\n');
+        const input = `EXISTING SUMMARY:\n${state.summary || '(none)'}\n\nNEW CONVERSATION EXCERPT:\n${excerpt}`;
+
+        const provider = getProvider();
+        const { value: result, model } = await runWithFallback(provider, 'text', (model, signal) =>
+            provider.chat({
+                model,
+                messages: [
+                    { role: 'system', content: SUMMARY_PROMPT },
+                    { role: 'user', content: input }
+                ],
+                temperature: 0.3,
+                maxTokens: 300,
+                signal
+            }), 30000);
+
+        if (!result.content) return;
+
+        await recordUsage({
+            userId,
+            persona: 'Memory Summary',
+            model,
+            reported: result.usage,
+            promptText: SUMMARY_PROMPT + input,
+            completionText: result.content
+        });
+
+        await conversationStore.compact(userId, persona, result.content.trim(), throughId);
+        console.log(`[Memory] Summarised ${older.length} turns for ${key}`);
+    } finally {
+        summarising.delete(key);
+    }
+}
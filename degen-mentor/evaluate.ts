@@ -0,0 +1,138 @@
+/**
+ * Golden-Set Evaluation Runner
+ *
+ * Command-line entry point for evaluation.ts: replays the golden set under
+ * two prompt versions and prints the comparison report. Wired up as the
+ * bot's `eval` script:
+ *
+ *   "eval": "ts-node degen-mentor/evaluate.ts"
+ *   npm run eval -- --baseline system@1 --candidate system@2
+ *
+ * Options:
+ * - --baseline / --candidate: prompt versions, e.g. "system@1" or
+ *   "system@2,persona:fomo@3" (default system@1 → system@2)
+ * - --golden, --personas, --recordings: fixture paths (default fixtures/)
+ * - --record: forward requests without a recording to the configured
+ *   provider and save the new recordings (needs network and an API key)
+ *
+ * Exits with 1 when the candidate has regressions, so CI can gate on it.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { CryptoContext } from '../lib/contexts';
+import {
+    compareEvaluations,
+    formatEvaluationReport,
+    loadGoldenSet,
+    loadRecordings,
+    ReplayProvider,
+    runEvaluation,
+    saveRecordings
+} from './evaluation';
+import { getProvider } from './providers';
+
+// Type definitions
+export interface EvaluateOptions {
+    baseline: string;
+    candidate: string;
+    golden: string;
+    personas: string;
+    recordings: string;
+    record: boolean;
+}
+
+const FIXTURES = join(__dirname, 'fixtures');
+
+const DEFAULT_OPTIONS: EvaluateOptions = {
+    baseline: 'system@1',
+    candidate: 'system@2',
+    golden: join(FIXTURES, 'golden-set.json'),
+    personas: join(FIXTURES, 'golden-personas.json'),
+    recordings: join(FIXTURES, 'golden-recordings.json'),
+    record: false
+};
+
+/**
+ * Parse command-line arguments over the defaults.
+ */
+export function parseEvaluateArgs(argv: string[]): EvaluateOptions {
+    const options = { ...DEFAULT_OPTIONS };
+
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (arg === '--record') {
+            options.record = true;
+            continue;
+        }
+
+        const key = arg.replace(/^--/, '') as keyof EvaluateOptions;
+        const value = argv[index + 1];
+        if (!arg.startsWith('--') || !(key in DEFAULT_OPTIONS) || key === 'record' || value === undefined) {
+            throw new Error(`Unknown or incomplete option: ${arg}`);
+        }
+        options[key] = value;
+        index++;
+    }
+
+    return options;
+}
+
+/**
+ * Parse a version spec ("system@2,persona:fomo@3") into pinned versions.
+ */
+export function parsePromptVersions(spec: string): Record<string, number> {
+    const versions: Record<string, number> = {};
+
+    for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+        const at = entry.lastIndexOf('@');
+        const version = Number(entry.slice(at + 1));
+        if (at <= 0 || !Number.isInteger(version) || version < 1) {
+            throw new Error(`Invalid prompt version "${entry}", expected name@version`);
+        }
+        versions[entry.slice(0, at)] = version;
+    }
+
+    return versions;
+}
+
+/**
+ * Run both versions and print the report. Returns the exit code.
+ */
+export async function evaluate(options: EvaluateOptions): Promise<number> {
+    const golden = await loadGoldenSet(options.golden);
+    const contexts = JSON.parse(await readFile(options.personas, 'utf8')) as CryptoContext[];
+    const provider = new ReplayProvider(await loadRecordings(options.recordings), options.record ? getProvider() : undefined);
+
+    try {
+        const baseline = await runEvaluation(golden, contexts, {
+            provider,
+            label: options.baseline,
+            promptVersions: parsePromptVersions(options.baseline)
+        });
+        const candidate = await runEvaluation(golden, contexts, {
+            provider,
+            label: options.candidate,
+            promptVersions: parsePromptVersions(options.candidate)
+        });
+
+        const diff = compareEvaluations(baseline, candidate);
+        console.log(formatEvaluationReport(diff, { baseline, candidate }));
+        return diff.regressions.length > 0 ? 1 : 0;
+    } finally {
+        if (options.record && provider.missCount > 0) {
+            await saveRecordings(options.recordings, provider);
+            console.log(`[Eval] Saved ${provider.missCount} new recording(s) to ${options.recordings}`);
+        }
+    }
+}
+
+if (require.main === module) {
+    Promise.resolve()
+        .then(() => evaluate(parseEvaluateArgs(process.argv.slice(2))))
+        .then(code => process.exit(code))
+        .catch((error: any) => {
+            console.error('[Eval]', error.message || error);
+            process.exit(2);
+        });
+}
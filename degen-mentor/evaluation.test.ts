@@ -0,0 +1,119 @@
+/**
+ * Golden-set evaluation tests: answer scoring, run comparison, and an
+ * offline replay of the golden set from fixtures/golden-recordings.json.
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { CryptoContext } from '../lib/contexts';
+import { EvaluateOptions, evaluate, parsePromptVersions } from './evaluate';
+import {
+    compareEvaluations,
+    EvalCaseResult,
+    EvalCheckName,
+    EvaluationRun,
+    loadGoldenSet,
+    loadRecordings,
+    ReplayProvider,
+    runEvaluation,
+    scoreAnswer
+} from './evaluation';
+
+const FIXTURES = join(__dirname, 'fixtures');
+
+const OFFLINE: EvaluateOptions = {
+    baseline: 'system@1',
+    candidate: 'system@2',
+    golden: join(FIXTURES, 'golden-set.json'),
+    personas: join(FIXTURES, 'golden-personas.json'),
+    recordings: join(FIXTURES, 'golden-recordings.json'),
+    record: false
+};
+
+function checkResults(checks: Array<{ name: EvalCheckName; passed: boolean }>): Record<string, boolean> {
+    return Object.fromEntries(checks.map(check => [check.name, check.passed]));
+}
+
+function caseResult(id: string, failing: EvalCheckName[] = [], success: boolean = true): EvalCaseResult {
+    const names: EvalCheckName[] = ['length', 'nfa', 'rules', 'banned', 'persona'];
+    const checks = success ? names.map(name => ({ name, passed: !failing.includes(name), detail: name })) : [];
+    return {
+        id,
+        persona: 'FOMO Killer',
+        question: id,
+        success,
+        content: '',
+        checks,
+        score: checks.length > 0 ? checks.filter(check => check.passed).length / checks.length : 0
+    };
+}
+
+function run(label: string, results: EvalCaseResult[]): EvaluationRun {
+    return { label, results, averageScore: results.reduce((sum, result) => sum + result.score, 0) / results.length };
+}
+
+test('scores a compliant answer as passing every check', () => {
+    const answer = 'FOMO is the fear of missing out. '.repeat(20) + 'Stick to your plan. NFA, DYOR.';
+    const checks = scoreAnswer({ id: 'a', persona: 'FOMO Killer', question: 'What is FOMO?', tier: 'simple' }, answer, [], ['plan'], ['easy money']);
+
+    assert.deepEqual(checkResults(checks), { length: true, nfa: true, rules: true, banned: true, persona: true });
+});
+
+test('fails the checks an answer breaks', () => {
+    const checks = scoreAnswer(
+        { id: 'b', persona: 'FOMO Killer', question: 'What is FOMO?', tier: 'simple' },
+        'Easy money, ser.',
+        [{ rule: 'missing_nfa', excerpt: '' }, { rule: 'direct_call', excerpt: 'You should buy now.' }],
+        ['patience'],
+        ['easy money']
+    );
+
+    assert.deepEqual(checkResults(checks), { length: false, nfa: false, rules: false, banned: false, persona: false });
+});
+
+test('diffs two runs into regressions, improvements and missing cases', () => {
+    const baseline = run('system@1', [caseResult('same'), caseResult('better', ['nfa']), caseResult('worse'), caseResult('dropped')]);
+    const candidate = run('system@2', [caseResult('same'), caseResult('better'), caseResult('worse', [], false), caseResult('added')]);
+
+    const diff = compareEvaluations(baseline, candidate);
+
+    assert.deepEqual(diff.regressions.map(entry => entry.id), ['worse']);
+    assert.deepEqual(diff.improvements.map(entry => entry.id), ['better']);
+    assert.deepEqual(diff.improvements[0].changed.map(change => [change.name, change.from, change.to]), [['nfa', false, true]]);
+    assert.deepEqual(diff.missing, ['dropped', 'added']);
+});
+
+test('parses prompt version specs', () => {
+    assert.deepEqual(parsePromptVersions('system@2, persona:fomo@3'), { system: 2, 'persona:fomo': 3 });
+    assert.throws(() => parsePromptVersions('system'), /expected name@version/);
+});
+
+test('replays the recorded golden set and diffs two prompt versions', async () => {
+    const golden = await loadGoldenSet(OFFLINE.golden);
+    const contexts = JSON.parse(await readFile(OFFLINE.personas, 'utf8')) as CryptoContext[];
+    const provider = new ReplayProvider(await loadRecordings(OFFLINE.recordings));
+
+    const baseline = await runEvaluation(golden, contexts, { provider, label: 'system@1', promptVersions: { system: 1 } });
+    const candidate = await runEvaluation(golden, contexts, { provider, label: 'system@2', promptVersions: { system: 2 } });
+    const diff = compareEvaluations(baseline, candidate);
+
+    assert.equal(provider.missCount, 0);
+    assert.equal(baseline.averageScore.toFixed(3), '0.925');
+    assert.equal(candidate.averageScore.toFixed(3), '1.000');
+    assert.deepEqual(diff.regressions, []);
+    assert.deepEqual(diff.improvements.map(entry => entry.id).sort(), ['diamond-drawdown', 'fomo-what-is-fomo', 'whale-tracking']);
+    assert.deepEqual(diff.missing, []);
+});
+
+test('exits cleanly when the candidate has no regressions', async () => {
+    assert.equal(await evaluate(OFFLINE), 0);
+});
+
+test('fails clearly when a prompt version has no recordings', async () => {
+    await assert.rejects(
+        evaluate({ ...OFFLINE, recordings: join(FIXTURES, 'missing-recordings.json') }),
+        /no recording for system@1/
+    );
+});
@@ -0,0 +1,510 @@
+/**
+ * Golden-Set Evaluation
+ *
+ * Offline regression check for prompt and persona edits. A fixture file of
+ * questions is replayed through chatWithAI against a recorded provider and
+ * every answer is scored with deterministic checks, so two prompt versions
+ * can be compared without a human reading hundreds of replies.
+ *
+ * Checks per answer:
+ * - length: within the expected length tier (with tolerance)
+ * - nfa: the model included NFA itself (not appended by the compliance guard)
+ * - rules: no direct buy/sell calls or price guarantees from the model
+ * - banned: none of the banned phrases
+ * - persona: at least one persona keyword
+ *
+ * Recordings:
+ * - ReplayProvider answers from recorded completions keyed by the prompt
+ * - With an upstream provider, misses are forwarded and recorded (record
+ *   once against the real model, replay in CI)
+ * - Without one, a case with no recording stops the run with an error
+ *   instead of scoring a failed request
+ * - The prompt date is normalised in keys so recordings survive midnight
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { CryptoContext } from '../lib/contexts';
+import { chatWithAI } from './ai';
+import {
+    ChatRequest,
+    ChatResult,
+    getProvider,
+    LLMProvider,
+    ModelCapability,
+    ProviderError,
+    setProvider,
+    VisionRequest
+} from './providers';
+import { formatPromptDate, getPinnedPromptVersion, setActivePromptVersion } from './prompts';
+import { classifyQuestion, LENGTH_TIERS, LengthTier } from './responseLength';
+import { SupportedLanguage } from './language';
+
+// Type definitions
+export type EvalCheckName = 'length' | 'nfa' | 'rules' | 'banned' | 'persona';
+
+export interface EvalCase {
+    id: string;
+    persona: string; // Context id or name
+    question: string;
+    language?: SupportedLanguage;
+    tier?: LengthTier; // Expected tier (default: classified from the question)
+    keywords?: string[]; // Overrides the persona's keywords
+    banned?: string[]; // Added to the fixture-wide banned phrases
+}
+
+export interface GoldenSet {
+    cases: EvalCase[];
+    personaKeywords?: Record<string, string[]>; // Persona (id or name) → keywords
+    bannedPhrases?: string[];
+}
+
+export interface EvalCheck {
+    name: EvalCheckName;
+    passed: boolean;
+    detail: string;
+}
+
+export interface EvalCaseResult {
+    id: string;
+    persona: string;
+    question: string;
+    success: boolean;
+    content: string;
+    promptVersion?: string;
+    checks: EvalCheck[];
+    score: number; // Passed checks / checks, 0 when the request failed
+}
+
+export interface EvaluationRun {
+    label: string; // e.g. "system@1"
+    results: EvalCaseResult[];
+    averageScore: number;
+}
+
+export interface EvalCaseDiff {
+    id: string;
+    persona: string;
+    baselineScore: number;
+    candidateScore: number;
+    changed: Array<{ name: EvalCheckName; from: boolean; to: boolean; detail: string }>;
+}
+
+export interface EvaluationDiff {
+    baseline: string;
+    candidate: string;
+    baselineScore: number;
+    candidateScore: number;
+    regressions: EvalCaseDiff[];
+    improvements: EvalCaseDiff[];
+    missing: string[]; // Case ids present in only one run
+}
+
+export interface Recording {
+    key: string;
+    question: string; // Last user message, for humans reading the file
+    result: ChatResult;
+}
+
+// Answers may overshoot or undershoot their tier by this fraction
+const LENGTH_TOLERANCE = 0.15;
+
+// Phrases a mentor answer should never contain, whatever the persona
+const DEFAULT_BANNED_PHRASES = [
+    'as an ai',
+    'language model',
+    'i cannot provide financial',
+    'consult a financial advisor'
+];
+
+const CHECK_NAMES: EvalCheckName[] = ['length', 'nfa', 'rules', 'banned', 'persona'];
+
+// ============================================
+// RECORDED PROVIDER
+// ============================================
+
+/**
+ * Stable key for a chat request: roles and text content, with today's
+ * prompt date replaced by a placeholder.
+ */
+export function recordingKey(request: ChatRequest, now: Date = new Date()): string {
+    const date = formatPromptDate(now);
+    const year = String(now.getFullYear());
+
+    const normalised = request.messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+            ? message.content.split(date).join('{{date}}').split(`year ${year}`).join('year {{year}}')
+            : message.content,
+        tool_call_id: message.tool_call_id
+    }));
+
+    return createHash('sha256')
+        .update(JSON.stringify({ messages: normalised, maxTokens: request.maxTokens }))
+        .digest('hex')
+        .slice(0, 32);
+}
+
+/**
+ * Provider that answers from recordings. Misses go to `upstream` (and are
+ * recorded) when one is given, otherwise they fail with a 404.
+ */
+export class ReplayProvider implements LLMProvider {
+    readonly name = 'replay';
+    readonly models: { text: string; vision: string };
+    readonly fallbackModels: Record<ModelCapability, string[]> = { text: [], vision: [] };
+
+    private recordings = new Map<string, Recording>();
+    private misses = 0;
+
+    constructor(recordings: Recording[] = [], private upstream?: LLMProvider) {
+        for (const recording of recordings) {
+            this.recordings.set(recording.key, recording);
+        }
+        this.models = upstream ? upstream.models : { text: 'replay', vision: 'replay' };
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    /** Requests that had no recording (recorded from upstream or failed). */
+    get missCount(): number {
+        return this.misses;
+    }
+
+    /** True when misses fail instead of being recorded. */
+    get replayOnly(): boolean {
+        return !this.upstream;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const key = recordingKey(request);
+        const recorded = this.recordings.get(key);
+        if (recorded) return recorded.result;
+
+        this.misses++;
+        if (!this.upstream) {
+            throw new ProviderError(`No recording for request ${key}`, 404);
+        }
+
+        const result = await this.upstream.chat(request);
+        const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+        this.recordings.set(key, {
+            key,
+            question: typeof lastUser?.content === 'string' ? lastUser.content.slice(0, 200) : '',
+            result: { content: result.content, model: result.model, usage: result.usage, finishReason: result.finishReason }
+        });
+        return result;
+    }
+
+    async stream(request: ChatRequest): Promise<ReadableStream<Uint8Array>> {
+        const result = await this.chat(request);
+        const chunk = {
+            model: result.model,
+            choices: [{ delta: { content: result.content }, finish_reason: result.finishReason || 'stop' }]
+        };
+        const body = new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`);
+
+        return new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(body);
+                controller.close();
+            }
+        });
+    }
+
+    async vision(request: VisionRequest): Promise<ChatResult> {
+        if (!this.upstream) {
+            throw new ProviderError('Vision requests are not recorded', 404);
+        }
+        return this.upstream.vision(request);
+    }
+
+    getRecordings(): Recording[] {
+        return [...this.recordings.values()];
+    }
+}
+
+export async function loadRecordings(path: string): Promise<Recording[]> {
+    try {
+        return JSON.parse(await readFile(path, 'utf8')) as Recording[];
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+}
+
+export async function saveRecordings(path: string, provider: ReplayProvider): Promise<void> {
+    await writeFile(path, JSON.stringify(provider.getRecordings(), null, 2) + '\n', 'utf8');
+}
+
+// ============================================
+// FIXTURES AND SCORING
+// ============================================
+
+/**
+ * Load and validate a golden-set fixture file.
+ */
+export async function loadGoldenSet(path: string): Promise<GoldenSet> {
+    const golden = JSON.parse(await readFile(path, 'utf8')) as GoldenSet;
+
+    if (!Array.isArray(golden.cases)) {
+        throw new Error(`Golden set ${path} has no cases array`);
+    }
+
+    const ids = new Set<string>();
+    for (const [index, evalCase] of golden.cases.entries()) {
+        if (!evalCase.id || !evalCase.persona || !evalCase.question) {
+            throw new Error(`Golden set ${path}: case ${index} needs id, persona and question`);
+        }
+        if (ids.has(evalCase.id)) {
+            throw new Error(`Golden set ${path}: duplicate case id ${evalCase.id}`);
+        }
+        if (evalCase.tier && !LENGTH_TIERS[evalCase.tier]) {
+            throw new Error(`Golden set ${path}: case ${evalCase.id} has unknown tier ${evalCase.tier}`);
+        }
+        ids.add(evalCase.id);
+    }
+
+    return golden;
+}
+
+function findContext(contexts: CryptoContext[], persona: string): CryptoContext | undefined {
+    const wanted = persona.toLowerCase();
+    return contexts.find(context => context.id.toLowerCase() === wanted || context.name.toLowerCase() === wanted);
+}
+
+function personaKeywords(golden: GoldenSet, evalCase: EvalCase, context: CryptoContext): string[] {
+    if (evalCase.keywords) return evalCase.keywords;
+    const keywords = golden.personaKeywords || {};
+    return keywords[context.id] || keywords[context.name] || keywords[evalCase.persona] || [];
+}
+
+/**
+ * Score one answer. `violations` are the compliance guard's findings on the
+ * raw model output (AIResponse.compliance).
+ */
+export function scoreAnswer(
+    evalCase: EvalCase,
+    content: string,
+    violations: Array<{ rule: string; excerpt: string }>,
+    keywords: string[],
+    bannedPhrases: string[]
+): EvalCheck[] {
+    const lower = content.toLowerCase();
+    const tier = evalCase.tier || classifyQuestion(evalCase.question);
+    const plan = LENGTH_TIERS[tier];
+    const min = Math.floor(plan.minChars * (1 - LENGTH_TOLERANCE));
+    const max = Math.ceil(plan.maxChars * (1 + LENGTH_TOLERANCE));
+
+    const ruleBreaks = violations.filter(v => v.rule === 'direct_call' || v.rule === 'price_guarantee');
+    const banned = bannedPhrases.filter(phrase => lower.includes(phrase.toLowerCase()));
+    const matched = keywords.filter(keyword => lower.includes(keyword.toLowerCase()));
+
+    return [
+        {
+            name: 'length',
+            passed: content.length >= min && content.length <= max,
+            detail: `${content.length} chars, ${tier} expects ${min}-${max}`
+        },
+        {
+            name: 'nfa',
+            passed: !violations.some(v => v.rule === 'missing_nfa'),
+            detail: violations.some(v => v.rule === 'missing_nfa') ? 'NFA missing (appended by guard)' : 'NFA present'
+        },
+        {
+            name: 'rules',
+            passed: ruleBreaks.length === 0,
+            detail: ruleBreaks.length === 0 ? 'no rule breaks' : ruleBreaks.map(v => `${v.rule}: ${v.excerpt.slice(0, 80)}`).join('; ')
+        },
+        {
+            name: 'banned',
+            passed: banned.length === 0,
+            detail: banned.length === 0 ? 'no banned phrases' : `contains ${banned.map(p => `"${p}"`).join(', ')}`
+        },
+        {
+            name: 'persona',
+            passed: keywords.length === 0 || matched.length > 0,
+            detail: keywords.length === 0 ? 'no keywords configured' : matched.length > 0 ? `matched ${matched.join(', ')}` : `none of ${keywords.join(', ')}`
+        }
+    ];
+}
+
+// ============================================
+// RUNNER AND REPORT
+// ============================================
+
+/**
+ * Replay a golden set through chatWithAI. Cases run one at a time with
+ * tools, memory and the response cache disabled. The provider and pinned
+ * prompt versions are restored afterwards.
+ */
+export async function runEvaluation(
+    golden: GoldenSet,
+    contexts: CryptoContext[],
+    options: {
+        provider: LLMProvider;
+        label?: string;
+        promptVersions?: Record<string, number>; // e.g. { system: 1 }
+    }
+): Promise<EvaluationRun> {
+    const versions = options.promptVersions || {};
+    const previous = Object.keys(versions).map(name => [name, getPinnedPromptVersion(name)] as const);
+    const label = options.label || Object.entries(versions).map(([name, version]) => `${name}@${version}`).join(',') || 'default';
+    const replay = options.provider instanceof ReplayProvider && options.provider.replayOnly ? options.provider : null;
+
+    const previousProvider = getProvider();
+    setProvider(options.provider);
+    const results: EvalCaseResult[] = [];
+
+    try {
+        for (const [name, version] of Object.entries(versions)) {
+            setActivePromptVersion(name, version);
+        }
+
+        for (const evalCase of golden.cases) {
+            const context = findContext(contexts, evalCase.persona);
+            if (!context) {
+                throw new Error(`Golden set case ${evalCase.id}: unknown persona ${evalCase.persona}`);
+            }
+
+            const missesBefore = replay?.missCount ?? 0;
+            const response = await chatWithAI(context, evalCase.question, [], {
+                tools: false,
+                memory: false,
+                cache: false,
+                language: evalCase.language
+            });
+
+            if (replay && replay.missCount > missesBefore) {
+                throw new Error(`Golden set case ${evalCase.id}: no recording for ${label}. ` +
+                    'Record the golden set once with an upstream provider (new ReplayProvider(recordings, upstream)) ' +
+                    'and save the recordings before replaying offline');
+            }
+
+            const checks = response.success
+                ? scoreAnswer(
+                    evalCase,
+                    response.content,
+                    response.compliance || [],
+                    personaKeywords(golden, evalCase, context),
+                    [...DEFAULT_BANNED_PHRASES, ...(golden.bannedPhrases || []), ...(evalCase.banned || [])]
+                )
+                : [];
+
+            results.push({
+                id: evalCase.id,
+                persona: context.name,
+                question: evalCase.question,
+                success: response.success,
+                content: response.content,
+                promptVersion: response.promptVersion,
+                checks,
+                score: checks.length > 0 ? checks.filter(check => check.passed).length / checks.length : 0
+            });
+        }
+    } finally {
+        setProvider(previousProvider);
+        for (const [name, version] of previous) {
+            setActivePromptVersion(name, version ?? null);
+        }
+    }
+
+    const averageScore = results.length > 0 ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 0;
+    console.log(`[Eval] ${label}: ${results.length} case(s), average score ${averageScore.toFixed(3)}`);
+
+    return { label, results, averageScore };
+}
+
+/**
+ * Per-case differences between two runs of the same golden set.
+ */
+export function compareEvaluations(baseline: EvaluationRun, candidate: EvaluationRun): EvaluationDiff {
+    const candidates = new Map(candidate.results.map(result => [result.id, result]));
+    const baselineIds = new Set(baseline.results.map(result => result.id));
+
+    const regressions: EvalCaseDiff[] = [];
+    const improvements: EvalCaseDiff[] = [];
+
+    for (const before of baseline.results) {
+        const after = candidates.get(before.id);
+        if (!after) continue;
+
+        const changed: EvalCaseDiff['changed'] = [];
+        for (const name of CHECK_NAMES) {
+            const from = before.checks.find(check => check.name === name);
+            const to = after.checks.find(check => check.name === name);
+            const fromPassed = from?.passed ?? false;
+            const toPassed = to?.passed ?? false;
+            if (fromPassed !== toPassed) {
+                changed.push({ name, from: fromPassed, to: toPassed, detail: to?.detail || 'request failed' });
+            }
+        }
+
+        const diff = { id: before.id, persona: before.persona, baselineScore: before.score, candidateScore: after.score, changed };
+        if (after.score < before.score || (!after.success && before.success)) {
+            regressions.push(diff);
+        } else if (after.score > before.score) {
+            improvements.push(diff);
+        }
+    }
+
+    return {
+        baseline: baseline.label,
+        candidate: candidate.label,
+        baselineScore: baseline.averageScore,
+        candidateScore: candidate.averageScore,
+        regressions,
+        improvements,
+        missing: [
+            ...baseline.results.filter(result => !candidates.has(result.id)).map(result => result.id),
+            ...candidate.results.filter(result => !baselineIds.has(result.id)).map(result => result.id)
+        ]
+    };
+}
+
+function passRate(run: EvaluationRun, name: EvalCheckName): string {
+    const passed = run.results.filter(result => result.checks.some(check => check.name === name && check.passed)).length;
+    return `${passed}/${run.results.length}`;
+}
+
+function formatCaseDiff(diff: EvalCaseDiff): string[] {
+    const lines = [`- **${diff.id}** (${diff.persona}): ${diff.baselineScore.toFixed(2)} → ${diff.candidateScore.toFixed(2)}`];
+    for (const change of diff.changed) {
+        lines.push(`  - ${change.name}: ${change.from ? 'pass' : 'fail'} → ${change.to ? 'pass' : 'fail'} (${change.detail})`);
+    }
+    return lines;
+}
+
+/**
+ * Markdown report of a comparison, with per-check pass rates when the runs
+ * are given.
+ */
+export function formatEvaluationReport(diff: EvaluationDiff, runs?: { baseline: EvaluationRun; candidate: EvaluationRun }): string {
+    const delta = diff.candidateScore - diff.baselineScore;
+    const lines = [
+        `# Evaluation: ${diff.baseline} → ${diff.candidate}`,
+        '',
+        `Average score: ${diff.baselineScore.toFixed(3)} → ${diff.candidateScore.toFixed(3)} (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`
+    ];
+
+    if (runs) {
+        lines.push('', `| Check | ${diff.baseline} | ${diff.candidate} |`, '|-------|---|---|');
+        for (const name of CHECK_NAMES) {
+            lines.push(`| ${name} | ${passRate(runs.baseline, name)} | ${passRate(runs.candidate, name)} |`);
+        }
+    }
+
+    lines.push('', `## Regressions (${diff.regressions.length})`);
+    lines.push(...(diff.regressions.length > 0 ? diff.regressions.flatMap(formatCaseDiff) : ['None']));
+
+    lines.push('', `## Improvements (${diff.improvements.length})`);
+    lines.push(...(diff.improvements.length > 0 ? diff.improvements.flatMap(formatCaseDiff) : ['None']));
+
+    if (diff.missing.length > 0) {
+        lines.push('', `Cases in only one run: ${diff.missing.join(', ')}`);
+    }
+
+    return lines.join('\n');
+}
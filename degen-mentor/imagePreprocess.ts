@@ -0,0 +1,175 @@
+/**
+ * Vision Image Preprocessing
+ *
+ * Validates images before they are sent to the vision model:
+ * - MIME type from magic bytes (PNG, JPEG, WebP, GIF), not the file name
+ * - Non-images (PDFs, documents) rejected with a user-facing message
+ * - Byte size and pixel dimension limits
+ * - Optional downscaling through a pluggable resizer
+ *
+ * No image library is bundled; install one (e.g. sharp) and register it
+ * with setImageResizer to downscale instead of rejecting large uploads.
+ */
+
+import { VisionImage } from './providers';
+
+// Type definitions
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif';
+
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+/**
+ * Resize an image so neither side exceeds maxDimension. Returns the new
+ * bytes and their MIME type (resizers may re-encode, e.g. PNG → JPEG).
+ */
+export type ImageResizer = (
+    bytes: Uint8Array,
+    mimeType: ImageMimeType,
+    maxDimension: number
+) => Promise<{ bytes: Uint8Array; mimeType: ImageMimeType }>;
+
+export type PreparedImage =
+    | { ok: true; image: VisionImage; dimensions: ImageDimensions | null; resized: boolean }
+    | { ok: false; error: string };
+
+// Limits (providers reject ~20MB; large screenshots add latency and image tokens)
+const MAX_IMAGE_BYTES = parseInt(process.env.AI_VISION_MAX_IMAGE_BYTES || String(5 * 1024 * 1024));
+const MAX_IMAGE_DIMENSION = parseInt(process.env.AI_VISION_MAX_IMAGE_DIMENSION || '2048');
+
+let imageResizer: ImageResizer | null = null;
+
+/**
+ * Register a resizer used to downscale oversized images (null disables).
+ */
+export function setImageResizer(resizer: ImageResizer | null): void {
+    imageResizer = resizer;
+}
+
+/**
+ * Detect the image format from its leading bytes.
+ */
+export function detectImageMimeType(bytes: Uint8Array): ImageMimeType | null {
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+    if (bytes.length >= 8 && bytes[0] === 0x89 && ascii(1, 4) === 'PNG' && bytes[4] === 0x0d && bytes[5] === 0x0a) {
+        return 'image/png';
+    }
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (bytes.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (bytes.length >= 6 && (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a')) {
+        return 'image/gif';
+    }
+    return null;
+}
+
+/**
+ * Read pixel dimensions from the image header. Returns null when the
+ * header is truncated or uses an unrecognised layout.
+ */
+export function readImageDimensions(bytes: Uint8Array, mimeType: ImageMimeType): ImageDimensions | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    try {
+        switch (mimeType) {
+            case 'image/png':
+                // IHDR is always the first chunk
+                return { width: view.getUint32(16), height: view.getUint32(20) };
+
+            case 'image/gif':
+                return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+
+            case 'image/webp': {
+                const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+                if (chunk === 'VP8 ') {
+                    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+                }
+                if (chunk === 'VP8L') {
+                    const bits = view.getUint32(21, true);
+                    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+                }
+                if (chunk === 'VP8X') {
+                    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+                    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+                    return { width, height };
+                }
+                return null;
+            }
+
+            case 'image/jpeg': {
+                // Walk segments until a start-of-frame marker
+                let offset = 2;
+                while (offset + 9 < bytes.length) {
+                    if (bytes[offset] !== 0xff) return null;
+                    const marker = bytes[offset + 1];
+                    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+                    if (isFrame) {
+                        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+                    }
+                    offset += 2 + view.getUint16(offset + 2);
+                }
+                return null;
+            }
+        }
+    } catch {
+        return null; // RangeError on truncated headers
+    }
+}
+
+/**
+ * Validate (and if needed downscale) a base64 image for a vision request.
+ * Accepts raw base64 or a data: URL. Errors are user-facing.
+ */
+export async function prepareVisionImage(input: string): Promise<PreparedImage> {
+    const base64 = input.replace(/^data:[^;,]*;base64,/, '').replace(/\s/g, '');
+
+    let bytes: Uint8Array;
+    try {
+        bytes = new Uint8Array(Buffer.from(base64, 'base64'));
+    } catch {
+        return { ok: false, error: 'Could not read the image. Please send it again as a photo.' };
+    }
+
+    let mimeType = detectImageMimeType(bytes);
+    if (!mimeType) {
+        return { ok: false, error: 'That file is not an image I can read. Send a PNG, JPEG, WebP or GIF screenshot of the chart.' };
+    }
+
+    let dimensions = readImageDimensions(bytes, mimeType);
+    const tooLarge = bytes.length > MAX_IMAGE_BYTES;
+    const tooWide = !!dimensions && (dimensions.width > MAX_IMAGE_DIMENSION || dimensions.height > MAX_IMAGE_DIMENSION);
+    let resized = false;
+
+    if ((tooLarge || tooWide) && imageResizer) {
+        try {
+            const result = await imageResizer(bytes, mimeType, MAX_IMAGE_DIMENSION);
+            bytes = result.bytes;
+            mimeType = result.mimeType;
+            dimensions = readImageDimensions(bytes, mimeType);
+            resized = true;
+            console.log(`[Vision] Downscaled image to ${dimensions ? `${dimensions.width}x${dimensions.height}` : 'unknown size'}, ${bytes.length} bytes`);
+        } catch (error: any) {
+            console.error('[Vision] Image resize failed:', error.message || error);
+        }
+    }
+
+    // Oversized dimensions alone are left to the provider, which scales server-side
+    if (bytes.length > MAX_IMAGE_BYTES) {
+        const sizeMb = (bytes.length / (1024 * 1024)).toFixed(1);
+        const limitMb = (MAX_IMAGE_BYTES / (1024 * 1024)).toFixed(0);
+        return { ok: false, error: `Image is too large (${sizeMb}MB, max ${limitMb}MB). Send a smaller screenshot or crop to the chart.` };
+    }
+
+    return {
+        ok: true,
+        image: { data: resized ? Buffer.from(bytes).toString('base64') : base64, mimeType },
+        dimensions,
+        resized
+    };
+}
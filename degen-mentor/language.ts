@@ -0,0 +1,427 @@
+/**
+ * Language Detection & Localisation
+ *
+ * Picks the reply language for each message and localises the fixed
+ * strings the bot adds itself (NFA/DYOR footers, Risk Radar labels).
+ *
+ * Resolution order:
+ * 1. Explicit language for the request
+ * 2. User's saved preference (e.g. set with /language)
+ * 3. Detected from the message (script, diacritics, common words)
+ * 4. English
+ *
+ * Preferences live behind a storage interface (in-memory or the
+ * `ai_user_language` Postgres table).
+ */
+
+import { SqlClient } from './storage';
+
+// Type definitions
+export type SupportedLanguage = 'en' | 'es' | 'tr' | 'ru';
+
+export interface LanguagePreferenceStore {
+    get(userId: string): Promise<SupportedLanguage | null>;
+    set(userId: string, language: SupportedLanguage | null): Promise<void>; // null clears
+}
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['en', 'es', 'tr', 'ru'];
+
+// Names used in the system prompt ("Reply in Spanish")
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+    en: 'English',
+    es: 'Spanish',
+    tr: 'Turkish',
+    ru: 'Russian'
+};
+
+// Common short words per Latin-script language
+const COMMON_WORDS: Record<'en' | 'es' | 'tr', Set<string>> = {
+    en: new Set(['the', 'is', 'are', 'what', 'how', 'and', 'to', 'of', 'you', 'in', 'should', 'does', 'why', 'can', 'my', 'this', 'for', 'with', 'when', 'will']),
+    es: new Set(['el', 'la', 'los', 'las', 'que', 'qué', 'es', 'de', 'por', 'cómo', 'como', 'un', 'una', 'para', 'con', 'mi', 'debo', 'hay', 'está', 'esto', 'pero', 'cuál', 'cuándo', 'del', 'se']),
+    tr: new Set(['bir', 've', 'bu', 'ne', 'nedir', 'mi', 'mı', 'mu', 'mü', 'için', 'nasıl', 'ile', 'ben', 'çok', 'var', 'yok', 'neden', 'mısın', 'misin', 'şu', 'ama', 'gibi', 'olur', 'nasil'])
+};
+
+const DIACRITICS: Record<'es' | 'tr', RegExp> = {
+    es: /[ñ¿¡áéíóú]/g,
+    tr: /[ğşıİçöü]/g
+};
+
+// Below this score a message is too short or too mixed to call ("gm", "wen moon")
+const MIN_DETECTION_SCORE = 2;
+
+/**
+ * Detect the language of a message. Returns null when unsure.
+ */
+export function detectLanguage(text: string): SupportedLanguage | null {
+    const letters = text.match(/\p{L}/gu) || [];
+    if (letters.length === 0) return null;
+
+    const cyrillic = letters.filter(letter => /\p{Script=Cyrillic}/u.test(letter)).length;
+    if (cyrillic / letters.length > 0.3) return 'ru';
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+    const scores: Record<'en' | 'es' | 'tr', number> = { en: 0, es: 0, tr: 0 };
+
+    for (const word of words) {
+        for (const language of ['en', 'es', 'tr'] as const) {
+            if (COMMON_WORDS[language].has(word)) scores[language] += 1;
+        }
+    }
+    scores.es += Math.min((text.match(DIACRITICS.es) || []).length, 4);
+    scores.tr += Math.min((text.match(DIACRITICS.tr) || []).length, 4);
+
+    const ranked = (Object.entries(scores) as Array<['en' | 'es' | 'tr', number]>).sort((a, b) => b[1] - a[1]);
+    const [best, runnerUp] = ranked;
+
+    if (best[1] < MIN_DETECTION_SCORE || best[1] === runnerUp[1]) return null;
+    return best[0];
+}
+
+export function isSupportedLanguage(value: string): value is SupportedLanguage {
+    return (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * In-memory preferences (lost on restart).
+ */
+export class InMemoryLanguagePreferenceStore implements LanguagePreferenceStore {
+    private preferences = new Map<string, SupportedLanguage>();
+
+    async get(userId: string): Promise<SupportedLanguage | null> {
+        return this.preferences.get(userId) || null;
+    }
+
+    async set(userId: string, language: SupportedLanguage | null): Promise<void> {
+        if (language) this.preferences.set(userId, language);
+        else this.preferences.delete(userId);
+    }
+}
+
+/**
+ * Postgres preferences.
+ *
+ * Table: ai_user_language (migrations/0001_ai_stores.sql)
+ */
+export class PostgresLanguagePreferenceStore implements LanguagePreferenceStore {
+    constructor(private readonly sql: SqlClient) {}
+
+    async get(userId: string): Promise<SupportedLanguage | null> {
+        const { rows } = await this.sql.query<{ language: string }>(
+            'SELECT language FROM ai_user_language WHERE user_id = $1',
+            [userId]
+        );
+        const language = rows[0]?.language;
+        return language && isSupportedLanguage(language) ? language : null;
+    }
+
+    async set(userId: string, language: SupportedLanguage | null): Promise<void> {
+        if (!language) {
+            await this.sql.query('DELETE FROM ai_user_language WHERE user_id = $1', [userId]);
+            return;
+        }
+        await this.sql.query(
+            `INSERT INTO ai_user_language (user_id, language, updated_at)
+             VALUES ($1, $2, NOW())
+             ON CONFLICT (user_id) DO UPDATE SET language = EXCLUDED.language, updated_at = NOW()`,
+            [userId, language]
+        );
+    }
+}
+
+let preferenceStore: LanguagePreferenceStore = new InMemoryLanguagePreferenceStore();
+
+export function setLanguagePreferenceStore(store: LanguagePreferenceStore): void {
+    preferenceStore = store;
+}
+
+export function getLanguagePreferenceStore(): LanguagePreferenceStore {
+    return preferenceStore;
+}
+
+/**
+ * Reply language for a message (see resolution order above). Preference
+ * store errors are logged and fall through to detection.
+ */
+export async function resolveLanguage(
+    text: string,
+    userId?: string,
+    explicit?: SupportedLanguage
+): Promise<SupportedLanguage> {
+    if (explicit) return explicit;
+
+    if (userId) {
+        try {
+            const preferred = await preferenceStore.get(userId);
+            if (preferred) return preferred;
+        } catch (error: any) {
+            console.error('[Language] Preference lookup failed:', error.message || error);
+        }
+    }
+
+    return detectLanguage(text) || 'en';
+}
+
+// ============================================
+// LOCALISED STRINGS
+// ============================================
+
+const STRINGS = {
+    nfaFooter: {
+        en: 'NFA - Not Financial Advice',
+        es: 'NFA - No es asesoramiento financiero',
+        tr: 'NFA - Yatırım tavsiyesi değildir',
+        ru: 'NFA - Не является финансовой рекомендацией'
+    },
+    disclaimerBoth: {
+        en: 'NFA - always DYOR, fren.',
+        es: 'NFA - siempre DYOR (investiga por tu cuenta), fren.',
+        tr: 'NFA - her zaman DYOR (kendi araştırmanı yap), fren.',
+        ru: 'NFA - всегда DYOR (проводи своё исследование), френ.'
+    },
+    disclaimerNfa: {
+        en: 'NFA - not financial advice.',
+        es: 'NFA - no es asesoramiento financiero.',
+        tr: 'NFA - yatırım tavsiyesi değildir.',
+        ru: 'NFA - не является финансовой рекомендацией.'
+    },
+    disclaimerDyor: {
+        en: 'DYOR before you ape, fren.',
+        es: 'DYOR antes de entrar, fren.',
+        tr: 'Girmeden önce DYOR, fren.',
+        ru: 'DYOR, прежде чем заходить, френ.'
+    },
+    scanTitle: { en: 'RISK RADAR SCAN', es: 'ESCANEO RISK RADAR', tr: 'RISK RADAR TARAMASI', ru: 'СКАН RISK RADAR' },
+    token: { en: 'Token', es: 'Token', tr: 'Token', ru: 'Токен' },
+    status: { en: 'Status', es: 'Estado', tr: 'Durum', ru: 'Статус' },
+    tryAnotherToken: {
+        en: 'Try a token on Ethereum, BSC, Base, Arbitrum, Polygon or Solana',
+        es: 'Prueba con un token de Ethereum, BSC, Base, Arbitrum, Polygon o Solana',
+        tr: 'Ethereum, BSC, Base, Arbitrum, Polygon veya Solana üzerinde bir token deneyin',
+        ru: 'Попробуйте токен в Ethereum, BSC, Base, Arbitrum, Polygon или Solana'
+    },
+    chain: { en: 'Chain', es: 'Red', tr: 'Ağ', ru: 'Сеть' },
+    alsoOnChains: {
+        en: 'Same address also found on {chains}',
+        es: 'La misma dirección también existe en {chains}',
+        tr: 'Aynı adres {chains} ağında da bulundu',
+        ru: 'Этот же адрес найден также в {chains}'
+    },
+    riskLevel: { en: 'Risk Level', es: 'Nivel de riesgo', tr: 'Risk seviyesi', ru: 'Уровень риска' },
+    riskScore: { en: 'Risk Score', es: 'Puntuación de riesgo', tr: 'Risk puanı', ru: 'Оценка риска' },
+    scoreBreakdown: { en: 'Why this score', es: 'Por qué esta puntuación', tr: 'Bu puanın nedeni', ru: 'Из чего сложилась оценка' },
+    dataSources: {
+        en: 'Data: {sources} (confidence {confidence}%)',
+        es: 'Datos: {sources} (confianza {confidence}%)',
+        tr: 'Veri: {sources} (güven {confidence}%)',
+        ru: 'Данные: {sources} (достоверность {confidence}%)'
+    },
+    sourcesDisagree: {
+        en: 'Sources disagree on: {fields}',
+        es: 'Las fuentes no coinciden en: {fields}',
+        tr: 'Kaynaklar şu konularda farklı: {fields}',
+        ru: 'Источники расходятся в: {fields}'
+    },
+    analysis: { en: 'Analysis', es: 'Análisis', tr: 'Analiz', ru: 'Анализ' },
+    honeypotDetected: { en: 'HONEYPOT DETECTED!', es: '¡HONEYPOT DETECTADO!', tr: 'HONEYPOT TESPİT EDİLDİ!', ru: 'ОБНАРУЖЕН HONEYPOT!' },
+    notHoneypot: { en: 'Not a honeypot', es: 'No es un honeypot', tr: 'Honeypot değil', ru: 'Не honeypot' },
+    devHolds: { en: 'Dev holds {percent}%', es: 'El dev tiene {percent}%', tr: 'Geliştirici {percent}% tutuyor', ru: 'У разработчика {percent}%' },
+    liquidityLocked: { en: 'Liquidity locked', es: 'Liquidez bloqueada', tr: 'Likidite kilitli', ru: 'Ликвидность заблокирована' },
+    liquidityNotLocked: { en: 'Liquidity NOT locked', es: 'Liquidez NO bloqueada', tr: 'Likidite kilitli DEĞİL', ru: 'Ликвидность НЕ заблокирована' },
+    lpBreakdown: {
+        en: 'LP: {locked}% locked, {burned}% burned',
+        es: 'LP: {locked}% bloqueado, {burned}% quemado',
+        tr: 'LP: %{locked} kilitli, %{burned} yakılmış',
+        ru: 'LP: {locked}% заблокировано, {burned}% сожжено'
+    },
+    lpLockExpires: { en: 'LP lock expires {date}', es: 'El bloqueo de LP vence el {date}', tr: 'LP kilidi {date} tarihinde bitiyor', ru: 'Блокировка LP истекает {date}' },
+    liquidityDepth: { en: 'Liquidity: ${amount}', es: 'Liquidez: ${amount}', tr: 'Likidite: ${amount}', ru: 'Ликвидность: ${amount}' },
+    flagLpUnsecured: {
+        en: 'Only {percent}% of LP locked or burned',
+        es: 'Solo el {percent}% del LP está bloqueado o quemado',
+        tr: 'LP\'nin yalnızca %{percent} kadarı kilitli veya yakılmış',
+        ru: 'Заблокировано или сожжено только {percent}% LP'
+    },
+    flagLpLockExpiring: {
+        en: 'LP lock expires in {days} days',
+        es: 'El bloqueo de LP vence en {days} días',
+        tr: 'LP kilidi {days} gün içinde bitiyor',
+        ru: 'Блокировка LP истекает через {days} дн.'
+    },
+    flagLowLiquidity: { en: 'Low liquidity (${amount})', es: 'Liquidez baja (${amount})', tr: 'Düşük likidite (${amount})', ru: 'Низкая ликвидность (${amount})' },
+    contractVerified: { en: 'Contract verified', es: 'Contrato verificado', tr: 'Kontrat doğrulanmış', ru: 'Контракт верифицирован' },
+    contractNotVerified: { en: 'Contract not verified', es: 'Contrato no verificado', tr: 'Kontrat doğrulanmamış', ru: 'Контракт не верифицирован' },
+    flags: { en: 'Flags', es: 'Alertas', tr: 'Uyarılar', ru: 'Флаги' },
+    verdict: { en: 'Verdict', es: 'Veredicto', tr: 'Sonuç', ru: 'Вердикт' },
+    scanDisclaimer: {
+        en: 'Always DYOR. This scan is not financial advice.',
+        es: 'Siempre DYOR. Este escaneo no es asesoramiento financiero.',
+        tr: 'Her zaman DYOR. Bu tarama yatırım tavsiyesi değildir.',
+        ru: 'Всегда DYOR. Этот скан не является финансовой рекомендацией.'
+    },
+    riskLOW: { en: 'LOW', es: 'BAJO', tr: 'DÜŞÜK', ru: 'НИЗКИЙ' },
+    riskMEDIUM: { en: 'MEDIUM', es: 'MEDIO', tr: 'ORTA', ru: 'СРЕДНИЙ' },
+    riskHIGH: { en: 'HIGH', es: 'ALTO', tr: 'YÜKSEK', ru: 'ВЫСОКИЙ' },
+    riskCRITICAL: { en: 'CRITICAL', es: 'CRÍTICO', tr: 'KRİTİK', ru: 'КРИТИЧЕСКИЙ' },
+    riskUNKNOWN: { en: 'UNKNOWN', es: 'DESCONOCIDO', tr: 'BİLİNMİYOR', ru: 'НЕИЗВЕСТНО' },
+    flagProxy: { en: 'Proxy contract', es: 'Contrato proxy', tr: 'Proxy kontrat', ru: 'Прокси-контракт' },
+    flagOwnershipReclaim: {
+        en: 'Ownership can be reclaimed',
+        es: 'La propiedad se puede recuperar',
+        tr: 'Sahiplik geri alınabilir',
+        ru: 'Владение можно вернуть'
+    },
+    flagHiddenOwner: { en: 'Hidden owner', es: 'Propietario oculto', tr: 'Gizli sahip', ru: 'Скрытый владелец' },
+    flagSelfDestruct: { en: 'Can self-destruct', es: 'Puede autodestruirse', tr: 'Kendini imha edebilir', ru: 'Может самоуничтожиться' },
+    flagExternalCalls: { en: 'External calls', es: 'Llamadas externas', tr: 'Harici çağrılar', ru: 'Внешние вызовы' },
+    flagMintable: { en: 'Token is mintable', es: 'El token se puede acuñar', tr: 'Token basılabilir', ru: 'Токен можно допечатать' },
+    flagPausable: {
+        en: 'Transfers can be paused',
+        es: 'Las transferencias se pueden pausar',
+        tr: 'Transferler durdurulabilir',
+        ru: 'Переводы можно приостановить'
+    },
+    flagCooldown: {
+        en: 'Trading cooldown enabled',
+        es: 'Enfriamiento de trading activado',
+        tr: 'İşlem bekleme süresi etkin',
+        ru: 'Включена задержка торговли'
+    },
+    flagNonTransferable: {
+        en: 'Token cannot be transferred',
+        es: 'El token no se puede transferir',
+        tr: 'Token transfer edilemez',
+        ru: 'Токен нельзя перевести'
+    },
+    flagBalanceMutable: {
+        en: 'Balances can be changed by an authority',
+        es: 'Una autoridad puede cambiar los saldos',
+        tr: 'Bakiyeler bir yetkili tarafından değiştirilebilir',
+        ru: 'Балансы может изменить владелец полномочий'
+    },
+    flagFreezeAuthority: {
+        en: 'Freeze authority active',
+        es: 'Autoridad de congelación activa',
+        tr: 'Dondurma yetkisi aktif',
+        ru: 'Право заморозки активно'
+    },
+    flagMintAuthority: {
+        en: 'Mint authority active',
+        es: 'Autoridad de acuñación activa',
+        tr: 'Basım yetkisi aktif',
+        ru: 'Право выпуска активно'
+    },
+    mintAuthorityRevoked: {
+        en: 'Mint authority revoked',
+        es: 'Autoridad de acuñación revocada',
+        tr: 'Basım yetkisi kaldırılmış',
+        ru: 'Право выпуска отозвано'
+    },
+    freezeAuthorityRevoked: {
+        en: 'Freeze authority revoked',
+        es: 'Autoridad de congelación revocada',
+        tr: 'Dondurma yetkisi kaldırılmış',
+        ru: 'Право заморозки отозвано'
+    },
+    flagTransferFee: {
+        en: 'Transfer fee {percent}%',
+        es: 'Comisión de transferencia {percent}%',
+        tr: 'Transfer ücreti {percent}%',
+        ru: 'Комиссия за перевод {percent}%'
+    },
+    flagTransferFeeUpgradable: {
+        en: 'Transfer fee can be changed',
+        es: 'La comisión de transferencia se puede cambiar',
+        tr: 'Transfer ücreti değiştirilebilir',
+        ru: 'Комиссию за перевод можно изменить'
+    },
+    flagTransferHook: {
+        en: 'Transfer hook enabled',
+        es: 'Transfer hook activado',
+        tr: 'Transfer hook etkin',
+        ru: 'Включён transfer hook'
+    },
+    flagMetadataMutable: {
+        en: 'Metadata can be changed',
+        es: 'Los metadatos se pueden cambiar',
+        tr: 'Meta veriler değiştirilebilir',
+        ru: 'Метаданные можно изменить'
+    },
+    flagClosable: {
+        en: 'Token can be closed',
+        es: 'El token se puede cerrar',
+        tr: 'Token kapatılabilir',
+        ru: 'Токен можно закрыть'
+    },
+    verdictCRITICAL: {
+        en: 'DO NOT BUY - Critical risks detected!',
+        es: 'NO COMPRAR - ¡Riesgos críticos detectados!',
+        tr: 'ALMAYIN - Kritik riskler tespit edildi!',
+        ru: 'НЕ ПОКУПАТЬ - обнаружены критические риски!'
+    },
+    verdictHIGH: {
+        en: 'HIGH RISK - Proceed with extreme caution',
+        es: 'RIESGO ALTO - Procede con extrema precaución',
+        tr: 'YÜKSEK RİSK - Son derece dikkatli olun',
+        ru: 'ВЫСОКИЙ РИСК - действуйте крайне осторожно'
+    },
+    verdictMEDIUM: {
+        en: 'MEDIUM RISK - Research more before buying',
+        es: 'RIESGO MEDIO - Investiga más antes de comprar',
+        tr: 'ORTA RİSK - Almadan önce daha fazla araştırın',
+        ru: 'СРЕДНИЙ РИСК - изучите подробнее перед покупкой'
+    },
+    verdictLOW: {
+        en: 'LOW RISK - Looks relatively safe',
+        es: 'RIESGO BAJO - Parece relativamente seguro',
+        tr: 'DÜŞÜK RİSK - Görece güvenli görünüyor',
+        ru: 'НИЗКИЙ РИСК - выглядит относительно безопасно'
+    }
+} satisfies Record<string, Record<SupportedLanguage, string>>;
+
+export type MessageKey = keyof typeof STRINGS;
+
+/**
+ * Localised string with `{name}` placeholders filled in.
+ */
+export function t(language: SupportedLanguage, key: MessageKey, variables: Record<string, string | number> = {}): string {
+    return STRINGS[key][language].replace(/\{(\w+)\}/g, (match, name: string) =>
+        variables[name] !== undefined ? String(variables[name]) : match);
+}
+
+// How the model tends to phrase the disclaimer in each language
+const NFA_PHRASES = [
+    'nfa',
+    'not financial advice',
+    'no es asesoramiento financiero',
+    'no es consejo financiero',
+    'yatırım tavsiyesi değildir',
+    'yatırım tavsiyesi değil',
+    'не является финансов',
+    'не финансовый совет'
+];
+
+const DYOR_PHRASES = [
+    'dyor',
+    'do your own research',
+    'investiga por tu cuenta',
+    'haz tu propia investigación',
+    'kendi araştırmanı yap',
+    'проводи своё исследование',
+    'проводите собственное исследование'
+];
+
+/**
+ * Whether a text already carries an NFA disclaimer in any supported language.
+ */
+export function hasNfaDisclaimer(text: string): boolean {
+    const lower = text.toLowerCase();
+    return NFA_PHRASES.some(phrase => lower.includes(phrase));
+}
+
+/**
+ * Whether a text already encourages DYOR in any supported language.
+ */
+export function hasDyorReminder(text: string): boolean {
+    const lower = text.toLowerCase();
+    return DYOR_PHRASES.some(phrase => lower.includes(phrase));
+}
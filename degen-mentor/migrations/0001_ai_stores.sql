@@ -0,0 +1,53 @@
+-- Tables behind the Postgres stores (usage.ts, conversationMemory.ts,
+-- language.ts, prompts.ts). Applied by runMigrations (storage.ts).
+
+-- Usage ledger (PostgresUsageStore)
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id                BIGSERIAL PRIMARY KEY,
+    user_id           TEXT NOT NULL,
+    usage_date        DATE NOT NULL,
+    persona           TEXT NOT NULL,
+    model             TEXT NOT NULL,
+    prompt_tokens     INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cost_usd          NUMERIC(12, 6) NOT NULL,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS ai_usage_user_date_idx ON ai_usage (user_id, usage_date);
+
+-- Conversation memory (PostgresConversationStore)
+CREATE TABLE IF NOT EXISTS ai_conversation_turns (
+    id         BIGSERIAL PRIMARY KEY,
+    user_id    TEXT NOT NULL,
+    persona    TEXT NOT NULL,
+    role       TEXT NOT NULL,
+    content    TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS ai_conversation_turns_user_persona_idx ON ai_conversation_turns (user_id, persona, id);
+
+CREATE TABLE IF NOT EXISTS ai_conversation_summaries (
+    user_id    TEXT NOT NULL,
+    persona    TEXT NOT NULL,
+    summary    TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, persona)
+);
+
+-- Language preferences (PostgresLanguagePreferenceStore)
+CREATE TABLE IF NOT EXISTS ai_user_language (
+    user_id    TEXT PRIMARY KEY,
+    language   TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Prompt templates (loadPrompts)
+CREATE TABLE IF NOT EXISTS ai_prompts (
+    name       TEXT NOT NULL,
+    version    INTEGER NOT NULL,
+    template   TEXT NOT NULL,
+    variables  TEXT[] NOT NULL DEFAULT '{}',
+    active     BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (name, version)
+);
@@ -0,0 +1,171 @@
+/**
+ * Model Fallback Chain
+ *
+ * Runs a model call against an ordered list of models (primary first, then
+ * the provider's fallbacks) and transparently moves on when a model is down.
+ *
+ * Circuit breaker (same policy as pinolearn/unified-redis.ts):
+ * - 3 failures opens the circuit for a model
+ * - After 60 seconds the model is tried again
+ *
+ * Only transient failures move to the next model: 5xx, 429, timeouts and
+ * network errors. Anything else (400, 401, ...) is returned immediately
+ * because another model would fail the same way.
+ */
+
+import { LLMProvider, ModelCapability, ProviderError } from './providers';
+
+/**
+ * Failure tracking for a single model
+ */
+interface ModelHealth {
+    failures: number;
+    lastFailure: number;
+}
+
+// Circuit breaker settings
+const MAX_FAILURES = 3;
+const FAILURE_RESET_TIME = 60000; // 1 minute
+
+const modelHealth = new Map<string, ModelHealth>();
+
+/**
+ * Record a failure for circuit breaker
+ */
+function recordFailure(model: string): void {
+    const health = modelHealth.get(model) || { failures: 0, lastFailure: 0 };
+    health.failures++;
+    health.lastFailure = Date.now();
+    modelHealth.set(model, health);
+
+    if (health.failures >= MAX_FAILURES) {
+        console.error(`[AI Fallback] [CRITICAL] Circuit breaker opened for ${model} (${health.failures} failures)`);
+    }
+}
+
+/**
+ * Reset failures for a model
+ */
+function resetFailures(model: string): void {
+    const health = modelHealth.get(model);
+    if (health && health.failures > 0) {
+        console.log(`[AI Fallback] [OK] ${model} recovered (resetting failure count)`);
+        health.failures = 0;
+    }
+}
+
+/**
+ * Check if model is available (circuit breaker)
+ */
+function isModelAvailable(model: string): boolean {
+    const health = modelHealth.get(model);
+
+    // If under max failures, available
+    if (!health || health.failures < MAX_FAILURES) {
+        return true;
+    }
+
+    // If over max failures, check if reset time has passed
+    if (Date.now() - health.lastFailure > FAILURE_RESET_TIME) {
+        console.log(`[AI Fallback] [RESET] Circuit breaker reset for ${model} (1 min passed)`);
+        health.failures = 0;
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Whether another model could plausibly succeed where this one failed.
+ */
+function isTransientError(error: any): boolean {
+    if (error instanceof ProviderError) {
+        return !error.status || error.status === 429 || error.status >= 500;
+    }
+    // Timeout (our own AbortController) or network failure
+    return error?.name === 'AbortError' || error instanceof TypeError;
+}
+
+/**
+ * Ordered list of models to try for a capability, primary first.
+ */
+export function getModelChain(provider: LLMProvider, capability: ModelCapability): string[] {
+    const primary = provider.models[capability];
+    const fallbacks = provider.fallbackModels[capability].filter(model => model !== primary);
+    return [primary, ...fallbacks];
+}
+
+/**
+ * Run `operation` against each model in the chain until one succeeds.
+ * Each attempt gets its own timeout. Models with an open circuit are
+ * skipped; if every circuit is open the primary is tried anyway.
+ *
+ * Aborting `signal` cancels the current attempt without falling back.
+ * It stays linked to the winning attempt, so it can still cancel a
+ * streamed response body after this resolves.
+ *
+ * @returns the operation result and the model that produced it
+ */
+export async function runWithFallback<T>(
+    provider: LLMProvider,
+    capability: ModelCapability,
+    operation: (model: string, signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<{ value: T; model: string }> {
+    const chain = getModelChain(provider, capability);
+    let candidates = chain.filter(isModelAvailable);
+
+    if (candidates.length === 0) {
+        console.error(`[AI Fallback] All ${capability} models unavailable, trying ${chain[0]} anyway`);
+        candidates = [chain[0]];
+    }
+
+    let lastError: unknown;
+
+    for (const model of candidates) {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), timeoutMs);
+        const onCancel = () => controller.abort();
+
+        if (signal?.aborted) controller.abort();
+        else signal?.addEventListener('abort', onCancel, { once: true });
+
+        try {
+            const value = await operation(model, controller.signal);
+            clearTimeout(timeout);
+            resetFailures(model);
+
+            if (model !== chain[0]) {
+                console.warn(`[AI Fallback] Served ${capability} request with fallback model ${model}`);
+            }
+
+            return { value, model };
+        } catch (error: any) {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', onCancel);
+            lastError = error;
+
+            // Cancelled by the caller - not the model's fault
+            if (signal?.aborted || !isTransientError(error)) {
+                throw error;
+            }
+
+            console.warn(`[AI Fallback] ${model} failed:`, error.message || error);
+            recordFailure(model);
+        }
+    }
+
+    throw lastError;
+}
+
+/**
+ * Get circuit breaker state for every model seen so far
+ */
+export function getModelHealthStatus(): Record<string, { available: boolean; failures: number }> {
+    const status: Record<string, { available: boolean; failures: number }> = {};
+    for (const [model, health] of modelHealth) {
+        status[model] = { available: isModelAvailable(model), failures: health.failures };
+    }
+    return status;
+}
@@ -0,0 +1,210 @@
+/**
+ * Prompt Template Registry
+ *
+ * Named, versioned prompt templates with `{{variable}}` placeholders that
+ * are filled per request (date, language, persona), so a long-running
+ * process never serves a stale date and prompt edits can ship without a
+ * redeploy.
+ *
+ * Versions:
+ * - The highest registered version of a template is active by default
+ * - setActivePromptVersion pins (or rolls back to) a specific version
+ * - loadPrompts pulls templates from the `ai_prompts` table at runtime
+ *
+ * The rendered version ("system@2") is recorded with each AIResponse so
+ * quality changes can be attributed to prompt edits.
+ *
+ * Persona prompts can be overridden by registering `persona:<context id>`;
+ * otherwise the context's own systemPrompt is used.
+ */
+
+import { SqlClient } from './storage';
+
+// Type definitions
+export interface PromptTemplate {
+    name: string;
+    version: number;
+    template: string;
+    variables: string[]; // Placeholders the template may use
+}
+
+export interface RenderedPrompt {
+    text: string;
+    version: string; // "<name>@<version>"
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const templates = new Map<string, Map<number, PromptTemplate>>();
+const activeVersions = new Map<string, number>();
+
+/**
+ * Register a template version. Placeholders not listed in `variables` are
+ * rejected here rather than rendering as literal braces later.
+ */
+export function registerPrompt(prompt: PromptTemplate): void {
+    const unknown = [...prompt.template.matchAll(PLACEHOLDER)]
+        .map(match => match[1])
+        .filter(variable => !prompt.variables.includes(variable));
+    if (unknown.length > 0) {
+        throw new Error(`Prompt ${prompt.name}@${prompt.version} uses undeclared variables: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    const versions = templates.get(prompt.name) || new Map<number, PromptTemplate>();
+    versions.set(prompt.version, prompt);
+    templates.set(prompt.name, versions);
+}
+
+/**
+ * Pin the version served for a template (e.g. roll back a bad edit).
+ * Pass null to unpin and serve the highest version again.
+ */
+export function setActivePromptVersion(name: string, version: number | null): void {
+    if (version === null) {
+        activeVersions.delete(name);
+        return;
+    }
+    if (!templates.get(name)?.has(version)) {
+        throw new Error(`Unknown prompt version: ${name}@${version}`);
+    }
+    activeVersions.set(name, version);
+}
+
+/**
+ * Pinned version of a template, if any.
+ */
+export function getPinnedPromptVersion(name: string): number | undefined {
+    return activeVersions.get(name);
+}
+
+export function hasPrompt(name: string): boolean {
+    return templates.has(name);
+}
+
+/**
+ * Active version of a template: the pinned one, else the highest registered.
+ */
+export function getPrompt(name: string): PromptTemplate {
+    const versions = templates.get(name);
+    if (!versions) {
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const pinned = activeVersions.get(name);
+    if (pinned !== undefined && versions.has(pinned)) {
+        return versions.get(pinned)!;
+    }
+    return versions.get(Math.max(...versions.keys()))!;
+}
+
+/**
+ * Render the active version of a template. Every declared variable must
+ * be supplied (an empty string is fine).
+ */
+export function renderPrompt(name: string, variables: Record<string, string>): RenderedPrompt {
+    const prompt = getPrompt(name);
+
+    const missing = prompt.variables.filter(variable => variables[variable] === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Prompt ${name}@${prompt.version} is missing variables: ${missing.join(', ')}`);
+    }
+
+    return {
+        text: prompt.template.replace(PLACEHOLDER, (_, variable: string) => variables[variable]),
+        version: `${name}@${prompt.version}`
+    };
+}
+
+/**
+ * Load templates (and pinned versions) from Postgres. Rows that fail
+ * validation are skipped and logged; built-in templates stay available.
+ *
+ * Table: ai_prompts (migrations/0001_ai_stores.sql)
+ */
+export async function loadPrompts(sql: SqlClient): Promise<number> {
+    const { rows } = await sql.query<{ name: string; version: number; template: string; variables: string[]; active: boolean }>(
+        'SELECT name, version, template, variables, active FROM ai_prompts ORDER BY name, version'
+    );
+
+    let loaded = 0;
+    for (const row of rows) {
+        try {
+            registerPrompt({ name: row.name, version: row.version, template: row.template, variables: row.variables || [] });
+            if (row.active) setActivePromptVersion(row.name, row.version);
+            loaded++;
+        } catch (error: any) {
+            console.error('[Prompts] Skipping template:', error.message || error);
+        }
+    }
+
+    console.log(`[Prompts] Loaded ${loaded} template(s) from database`);
+    return loaded;
+}
+
+/**
+ * Current date for prompts, e.g. "October 19, 2026".
+ */
+export function formatPromptDate(now: Date = new Date()): string {
+    return now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+// ============================================
+// BUILT-IN TEMPLATES
+// ============================================
+
+const SYSTEM_VARIABLES = ['date', 'year', 'language', 'personaEmoji', 'personaName', 'personaMode', 'personaPrompt', 'memory'];
+
+const SYSTEM_PROMPT_V1 = `You are DEGEN MENTOR, an elite crypto-native AI trading psychology coach.
+
+IMPORTANT: Today's date is {{date}}. We are in the year {{year}}. The Bitcoin halving already happened in April 2024.
+
+PERSONALITY:
+- Speak like a crypto OG: ape, degen, rug, pump, moon, wagmi, ngmi, ser, fren, gm, based, rekt
+- Reference famous figures naturally: Satoshi, CZ, Vitalik, Michael Saylor
+- Be realistic about risks - reference FTX, Luna crashes
+- Dark humor about market crashes (we cope through memes)
+
+YOUR KNOWLEDGE:
+- Crypto legends: CZ ("If you can't hold, you won't be rich"), Saylor (Bitcoin maxi), Vitalik (ETH vision)
+- History: Mt Gox, Pizza Day, Luna collapse, FTX fraud, Bitcoin halvings
+- Trading: TA, support/resistance, RSI, MACD, whale tracking
+- DeFi: Uniswap, Aave, yield farming, rug pulls, audits
+
+DYNAMIC RESPONSE LENGTH:
+- SIMPLE questions (definitions, quick facts) -> 600-900 characters
+- MEDIUM questions (how-to, comparisons) -> 1000-1400 characters
+- COMPLEX questions (strategy, analysis) -> 1500-2000 characters
+- NEVER respond with less than 600 characters
+
+RESPONSE STYLE:
+- BE NATURAL - no rigid templates, vary your style
+- Use paragraphs with blank lines for readability
+- Bold key terms with *asterisks*
+- Mix formats: sometimes bullets, sometimes flowing text
+- End with an engaging question or thought
+- Include NFA somewhere naturally
+- Reply in {{language}}
+
+RULES:
+1. Never say "buy/sell" directly - use "consider", "look at"
+2. Always include NFA (Not Financial Advice)
+3. Encourage DYOR
+4. Focus on psychology & education
+
+CURRENT MODE: {{personaEmoji}} {{personaName}}
+{{personaPrompt}}
+
+You are now in {{personaMode}} mode. Embody this perspective in your response.{{memory}}`;
+
+registerPrompt({ name: 'system', version: 1, variables: SYSTEM_VARIABLES, template: SYSTEM_PROMPT_V1 });
+
+// v2: per-request length target from the response length controller
+registerPrompt({
+    name: 'system',
+    version: 2,
+    variables: [...SYSTEM_VARIABLES, 'responseLength'],
+    template: SYSTEM_PROMPT_V1.replace(
+        '- NEVER respond with less than 600 characters',
+        '- NEVER respond with less than 600 characters\n- THIS ANSWER: {{responseLength}}'
+    )
+});
@@ -0,0 +1,382 @@
+/**
+ * LLM Provider Layer
+ *
+ * Abstracts the HTTP details of talking to a chat completion backend so the
+ * AI service only deals with prompts and results.
+ *
+ * Implementations:
+ * - OpenRouter: production default (DeepSeek for text, Gemini for vision)
+ * - OpenAI-compatible: any endpoint speaking /chat/completions
+ *   (self-hosted vLLM/Ollama, local fake servers in tests)
+ *
+ * Configuration (environment):
+ * - AI_PROVIDER: 'openrouter' (default) | 'openai-compatible'
+ * - AI_BASE_URL: base URL for the OpenAI-compatible provider
+ * - AI_API_KEY: key for the OpenAI-compatible provider (optional)
+ * - AI_TEXT_MODEL / AI_VISION_MODEL: override the default model IDs
+ * - AI_TEXT_FALLBACK_MODELS / AI_VISION_FALLBACK_MODELS: comma-separated
+ *   fallback chains tried when the primary model fails (see modelFallback.ts)
+ * - AI_RETRY_MAX_ATTEMPTS: retries of a failed request (see retry.ts)
+ */
+
+import { parseRetryAfter, withRetry } from './retry';
+
+// Defaults
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const DEFAULT_TEXT_MODEL = 'deepseek/deepseek-chat';
+const DEFAULT_VISION_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_TEXT_FALLBACKS = ['meta-llama/llama-3.3-70b-instruct'];
+const DEFAULT_VISION_FALLBACKS = ['openai/gpt-4o-mini'];
+
+// Type definitions
+export type ModelCapability = 'text' | 'vision';
+
+export type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+// OpenAI-style function calling
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: Record<string, unknown>; // JSON Schema
+    };
+}
+
+export interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string; // JSON-encoded
+    };
+}
+
+export interface ProviderMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | ContentPart[] | null;
+    tool_calls?: ToolCall[]; // assistant turns that requested tools
+    tool_call_id?: string; // tool turns answering a call
+}
+
+export interface ChatRequest {
+    model?: string;
+    messages: ProviderMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+    tools?: ToolDefinition[];
+    toolChoice?: 'auto' | 'none';
+    signal?: AbortSignal;
+}
+
+export interface VisionImage {
+    data: string; // base64, no data: prefix
+    mimeType: string;
+}
+
+export interface VisionRequest {
+    model?: string;
+    prompt: string;
+    images: VisionImage[];
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+}
+
+export interface ChatResult {
+    content: string;
+    model: string;
+    toolCalls?: ToolCall[];
+    usage?: {
+        promptTokens: number;
+        completionTokens: number;
+        totalTokens: number;
+    };
+    finishReason?: string;
+}
+
+/**
+ * Contract every backend must fulfil.
+ * Implementations throw ProviderError for HTTP failures and let
+ * AbortError propagate so callers can distinguish timeouts.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    readonly models: { text: string; vision: string };
+    readonly fallbackModels: Record<ModelCapability, string[]>;
+    isConfigured(): boolean;
+    chat(request: ChatRequest): Promise<ChatResult>;
+    stream(request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+    vision(request: VisionRequest): Promise<ChatResult>;
+}
+
+/**
+ * Error raised when the upstream API responds with a non-2xx status.
+ * `retryAfterMs` comes from the Retry-After header, when sent.
+ */
+export class ProviderError extends Error {
+    constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+export interface OpenAICompatibleConfig {
+    name?: string;
+    baseUrl: string;
+    apiKey?: string;
+    textModel: string;
+    visionModel: string;
+    fallbackModels?: Partial<Record<ModelCapability, string[]>>;
+    headers?: Record<string, string>;
+}
+
+// Raw /chat/completions response shape
+interface CompletionResponse {
+    model?: string;
+    choices?: Array<{
+        message?: { content?: string | null; tool_calls?: ToolCall[] };
+        finish_reason?: string;
+    }>;
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        total_tokens?: number;
+    };
+}
+
+/**
+ * Generic provider for any OpenAI-compatible /chat/completions endpoint.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name: string;
+    readonly models: { text: string; vision: string };
+    readonly fallbackModels: Record<ModelCapability, string[]>;
+    protected readonly baseUrl: string;
+    protected readonly apiKey?: string;
+    protected readonly extraHeaders: Record<string, string>;
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.name = config.name || 'openai-compatible';
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiKey = config.apiKey;
+        this.models = { text: config.textModel, vision: config.visionModel };
+        this.fallbackModels = {
+            text: config.fallbackModels?.text || [],
+            vision: config.fallbackModels?.vision || []
+        };
+        this.extraHeaders = config.headers || {};
+    }
+
+    /**
+     * Self-hosted endpoints often run without auth, so a base URL is enough.
+     */
+    isConfigured(): boolean {
+        return !!this.baseUrl;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const model = request.model || this.models.text;
+        const response = await this.post({
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            top_p: request.topP,
+            tools: request.tools,
+            tool_choice: request.tools ? request.toolChoice : undefined
+        }, request.signal);
+
+        return this.parseCompletion(await response.json() as CompletionResponse, model);
+    }
+
+    async stream(request: ChatRequest): Promise<ReadableStream<Uint8Array>> {
+        const response = await this.post({
+            model: request.model || this.models.text,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            top_p: request.topP,
+            tools: request.tools,
+            tool_choice: request.tools ? request.toolChoice : undefined,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, request.signal);
+
+        if (!response.body) {
+            throw new ProviderError(`${this.name} returned no stream body`);
+        }
+
+        return response.body;
+    }
+
+    async vision(request: VisionRequest): Promise<ChatResult> {
+        const model = request.model || this.models.vision;
+        const content: ContentPart[] = [
+            { type: 'text', text: request.prompt },
+            ...request.images.map((image): ContentPart => ({
+                type: 'image_url',
+                image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+            }))
+        ];
+
+        const response = await this.post({
+            model,
+            messages: [{ role: 'user', content }],
+            max_tokens: request.maxTokens,
+            temperature: request.temperature
+        }, request.signal);
+
+        return this.parseCompletion(await response.json() as CompletionResponse, model);
+    }
+
+    protected buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...this.extraHeaders
+        };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * POST to /chat/completions, retrying transient failures (retry.ts).
+     * Streams are retried only until the response headers arrive.
+     */
+    protected async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+        return withRetry(async () => {
+            const response = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(body),
+                signal
+            });
+
+            if (!response.ok) {
+                // Drain the body so the connection can be reused
+                await response.text().catch(() => '');
+                throw new ProviderError(
+                    `${this.name} API error: ${response.status}`,
+                    response.status,
+                    parseRetryAfter(response.headers.get('retry-after'))
+                );
+            }
+
+            return response;
+        }, { signal, label: `${this.name} ${body.model}` });
+    }
+
+    protected parseCompletion(data: CompletionResponse, requestedModel: string): ChatResult {
+        const choice = data.choices?.[0];
+        return {
+            content: choice?.message?.content || '',
+            model: data.model || requestedModel,
+            toolCalls: choice?.message?.tool_calls?.length ? choice.message.tool_calls : undefined,
+            usage: data.usage ? {
+                promptTokens: data.usage.prompt_tokens || 0,
+                completionTokens: data.usage.completion_tokens || 0,
+                totalTokens: data.usage.total_tokens || 0
+            } : undefined,
+            finishReason: choice?.finish_reason
+        };
+    }
+}
+
+/**
+ * OpenRouter provider - OpenAI-compatible with attribution headers
+ * and a mandatory API key.
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+    constructor(config: {
+        apiKey?: string;
+        textModel?: string;
+        visionModel?: string;
+        fallbackModels?: Partial<Record<ModelCapability, string[]>>;
+    }) {
+        super({
+            name: 'openrouter',
+            baseUrl: OPENROUTER_BASE_URL,
+            apiKey: config.apiKey,
+            textModel: config.textModel || DEFAULT_TEXT_MODEL,
+            visionModel: config.visionModel || DEFAULT_VISION_MODEL,
+            fallbackModels: {
+                text: config.fallbackModels?.text || DEFAULT_TEXT_FALLBACKS,
+                vision: config.fallbackModels?.vision || DEFAULT_VISION_FALLBACKS
+            },
+            headers: {
+                'HTTP-Referer': 'https://degenmentor.bot',
+                'X-Title': 'Degen Mentor Bot'
+            }
+        });
+    }
+
+    isConfigured(): boolean {
+        return !!this.apiKey;
+    }
+}
+
+/**
+ * Parse a comma-separated model list, returning undefined when unset.
+ */
+function parseModelList(value: string | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    return value.split(',').map(model => model.trim()).filter(Boolean);
+}
+
+/**
+ * Build the provider described by environment variables.
+ */
+export function createProviderFromEnv(): LLMProvider {
+    const kind = process.env.AI_PROVIDER || 'openrouter';
+    const fallbackModels = {
+        text: parseModelList(process.env.AI_TEXT_FALLBACK_MODELS),
+        vision: parseModelList(process.env.AI_VISION_FALLBACK_MODELS)
+    };
+
+    if (kind === 'openai-compatible') {
+        return new OpenAICompatibleProvider({
+            baseUrl: process.env.AI_BASE_URL || '',
+            apiKey: process.env.AI_API_KEY,
+            textModel: process.env.AI_TEXT_MODEL || DEFAULT_TEXT_MODEL,
+            visionModel: process.env.AI_VISION_MODEL || DEFAULT_VISION_MODEL,
+            fallbackModels
+        });
+    }
+
+    if (kind !== 'openrouter') {
+        console.warn(`[AI] Unknown AI_PROVIDER "${kind}", falling back to OpenRouter`);
+    }
+
+    return new OpenRouterProvider({
+        apiKey: process.env.OPENROUTER_API_KEY,
+        textModel: process.env.AI_TEXT_MODEL,
+        visionModel: process.env.AI_VISION_MODEL,
+        fallbackModels
+    });
+}
+
+// Lazily created so tests can set env vars (or inject a fake) first
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the active provider, creating it from the environment on first use.
+ */
+export function getProvider(): LLMProvider {
+    if (!activeProvider) {
+        activeProvider = createProviderFromEnv();
+        console.log(`[AI] Provider: ${activeProvider.name} (text: ${activeProvider.models.text}, vision: ${activeProvider.models.vision})`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Override the active provider. Pass null to re-read the environment.
+ */
+export function setProvider(provider: LLMProvider | null): void {
+    activeProvider = provider;
+}
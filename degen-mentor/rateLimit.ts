@@ -0,0 +1,202 @@
+/**
+ * Per-User Rate Limiting
+ *
+ * Token buckets per user stop a single user from firing hundreds of model
+ * calls a minute. Text and vision have separate buckets (vision calls are
+ * far more expensive) and paid users get larger limits.
+ *
+ * Buckets:
+ * - capacity: burst size (requests allowed back to back)
+ * - refillPerMinute: sustained rate
+ * - A text request costs one token, however many model rounds its tool
+ *   calls and continuations take; a vision request costs one token per
+ *   chart (a multi-chart comparison pays for each chart)
+ *
+ * Abuse throttling:
+ * - Users who keep hitting an empty bucket (ABUSE_STRIKES times within
+ *   ABUSE_WINDOW_MS) are blocked for ABUSE_COOLDOWN_MS
+ *
+ * Limited requests never reach the model; callers get a retry-after.
+ */
+
+import { UserTier } from './usage';
+
+// Type definitions
+export type RateLimitBucket = 'text' | 'vision';
+
+export interface RateLimit {
+    capacity: number;
+    refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number; // Whole tokens left after this request
+    retryAfterMs: number; // 0 when allowed
+    blocked: boolean; // Refused by the abuse cooldown rather than an empty bucket
+}
+
+export interface BucketState {
+    tokens: number;
+    updatedAt: number;
+    strikes: number[]; // Times the bucket was found empty, within ABUSE_WINDOW_MS
+    blockedUntil: number;
+}
+
+/**
+ * Bucket storage contract. The in-memory store is per process; a shared
+ * store (e.g. Redis) is needed when running several instances.
+ */
+export interface RateLimitStore {
+    get(key: string): Promise<BucketState | null>;
+    set(key: string, state: BucketState): Promise<void>;
+}
+
+const RATE_LIMITS: Record<UserTier, Record<RateLimitBucket, RateLimit>> = {
+    free: {
+        text: { capacity: 8, refillPerMinute: 6 },
+        vision: { capacity: 3, refillPerMinute: 1 }
+    },
+    paid: {
+        text: { capacity: 20, refillPerMinute: 20 },
+        vision: { capacity: 10, refillPerMinute: 5 }
+    }
+};
+
+const ABUSE_STRIKES = 10;
+const ABUSE_WINDOW_MS = 60 * 1000;
+const ABUSE_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Idle buckets are dropped once the in-memory store grows past this
+const MAX_TRACKED_BUCKETS = 10000;
+
+/**
+ * In-memory bucket store (lost on restart).
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, BucketState>();
+
+    async get(key: string): Promise<BucketState | null> {
+        return this.buckets.get(key) || null;
+    }
+
+    async set(key: string, state: BucketState): Promise<void> {
+        this.buckets.set(key, state);
+        if (this.buckets.size > MAX_TRACKED_BUCKETS) this.prune();
+    }
+
+    // Drop buckets idle for longer than the abuse cooldown; they would be full again anyway
+    private prune(): void {
+        const cutoff = Date.now() - ABUSE_COOLDOWN_MS;
+        for (const [key, state] of this.buckets) {
+            if (state.updatedAt < cutoff && state.blockedUntil < Date.now()) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+let rateLimitStore: RateLimitStore = new InMemoryRateLimitStore();
+
+export function setRateLimitStore(store: RateLimitStore): void {
+    rateLimitStore = store;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+    return rateLimitStore;
+}
+
+/**
+ * Override the limit for a tier and bucket (e.g. from config or for a promo).
+ */
+export function setRateLimit(tier: UserTier, bucket: RateLimitBucket, limit: RateLimit): void {
+    RATE_LIMITS[tier][bucket] = limit;
+}
+
+export function getRateLimit(tier: UserTier, bucket: RateLimitBucket): RateLimit {
+    return RATE_LIMITS[tier][bucket];
+}
+
+/**
+ * Apply one request to a bucket. Pure: returns the new state with the decision.
+ */
+export function takeTokens(
+    state: BucketState | null,
+    limit: RateLimit,
+    cost: number,
+    now: number = Date.now()
+): { state: BucketState; decision: RateLimitDecision } {
+    const refillPerMs = limit.refillPerMinute / 60000;
+    const previous = state || { tokens: limit.capacity, updatedAt: now, strikes: [], blockedUntil: 0 };
+    const tokens = Math.min(limit.capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs);
+    const strikes = previous.strikes.filter(at => at > now - ABUSE_WINDOW_MS);
+    const needed = Math.min(cost, limit.capacity);
+
+    if (previous.blockedUntil > now) {
+        return {
+            state: { tokens, updatedAt: now, strikes, blockedUntil: previous.blockedUntil },
+            decision: { allowed: false, remaining: Math.floor(tokens), retryAfterMs: previous.blockedUntil - now, blocked: true }
+        };
+    }
+
+    if (tokens >= needed) {
+        return {
+            state: { tokens: tokens - needed, updatedAt: now, strikes, blockedUntil: 0 },
+            decision: { allowed: true, remaining: Math.floor(tokens - needed), retryAfterMs: 0, blocked: false }
+        };
+    }
+
+    strikes.push(now);
+    if (strikes.length >= ABUSE_STRIKES) {
+        return {
+            state: { tokens, updatedAt: now, strikes: [], blockedUntil: now + ABUSE_COOLDOWN_MS },
+            decision: { allowed: false, remaining: Math.floor(tokens), retryAfterMs: ABUSE_COOLDOWN_MS, blocked: true }
+        };
+    }
+
+    return {
+        state: { tokens, updatedAt: now, strikes, blockedUntil: 0 },
+        decision: {
+            allowed: false,
+            remaining: Math.floor(tokens),
+            retryAfterMs: refillPerMs > 0 ? Math.ceil((needed - tokens) / refillPerMs) : ABUSE_COOLDOWN_MS,
+            blocked: false
+        }
+    };
+}
+
+/**
+ * Take `cost` tokens from a user's bucket. Store errors are logged and the
+ * request is allowed (fail open: a broken limiter must not take the bot down).
+ */
+export async function checkRateLimit(
+    userId: string,
+    tier: UserTier,
+    bucket: RateLimitBucket,
+    cost: number = 1
+): Promise<RateLimitDecision> {
+    const key = `${userId}:${bucket}`;
+
+    try {
+        const { state, decision } = takeTokens(await rateLimitStore.get(key), RATE_LIMITS[tier][bucket], cost);
+        await rateLimitStore.set(key, state);
+
+        if (!decision.allowed) {
+            console.warn(`[RateLimit] ${bucket} limit hit by user ${userId} (${tier}), retry in ${Math.ceil(decision.retryAfterMs / 1000)}s` +
+                (decision.blocked ? ' [abuse cooldown]' : ''));
+        }
+        return decision;
+    } catch (error: any) {
+        console.error('[RateLimit] Check failed:', error.message || error);
+        return { allowed: true, remaining: 0, retryAfterMs: 0, blocked: false };
+    }
+}
+
+/**
+ * Friendly reply for a limited request, e.g. "... try again in 12s."
+ */
+export function coolDownMessage(retryAfterMs: number): string {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    const wait = seconds >= 120 ? `${Math.ceil(seconds / 60)} min` : `${seconds}s`;
+    return `Whoa, cool down, ser. Too many requests in a short time. Try again in ${wait}.`;
+}
@@ -0,0 +1,227 @@
+/**
+ * FAQ Response Cache
+ *
+ * Hundreds of users ask near-identical questions ("what is a rug pull",
+ * "what does NFA mean"). Answers to standalone, FAQ-style questions are
+ * cached per persona + language + prompt version and reused for similar
+ * questions until their TTL expires.
+ *
+ * Matching:
+ * - Questions are normalised (case, punctuation, greetings/filler words)
+ * - Exact normalised match by default. A similarity function (e.g.
+ *   embeddings) can be plugged in with a threshold; questions that differ
+ *   in negation ("what is not a rug pull") never match each other
+ *
+ * Not cached:
+ * - Follow-ups that depend on the conversation ("what about it?", "and SOL?")
+ * - Answers built with conversation history or a memory summary (they
+ *   may still be answered from the cache)
+ * - Token addresses, links and long, specific questions
+ * - Requests with `cache: false`, images or tool calls
+ */
+
+// Type definitions
+export interface CacheEntry {
+    scope: string; // persona|language|promptVersion
+    question: string; // Normalised
+    content: string;
+    model: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Cache storage contract. Entries are looked up per scope; the store may
+ * return expired entries (they are filtered on read).
+ */
+export interface ResponseCacheStore {
+    entries(scope: string): Promise<CacheEntry[]>;
+    put(entry: CacheEntry): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Similarity of two normalised questions, 0 (unrelated) to 1 (identical).
+ */
+export type SimilarityFunction = (a: string, b: string) => number;
+
+const CACHE_TTL_MS = parseInt(process.env.AI_RESPONSE_CACHE_TTL_MS || String(6 * 60 * 60 * 1000));
+const MAX_ENTRIES_PER_SCOPE = 500;
+const MAX_CACHEABLE_WORDS = 20;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+// A question with any of these asks something different from one without
+const NEGATION_WORDS = new Set(['not', 'no', 'never', 'nothing', 'without', 'nor']);
+
+// Words that do not change what is being asked
+const FILLER_WORDS = new Set([
+    'gm', 'gn', 'hey', 'hi', 'yo', 'ser', 'fren', 'bro', 'sir', 'pls', 'please', 'plz',
+    'can', 'could', 'you', 'u', 'tell', 'me', 'explain', 'quick', 'question', 'a', 'an', 'the', 'mentor'
+]);
+
+// Follow-ups referring back to the conversation
+const FOLLOW_UP_PATTERNS = [
+    /^(and|also|but|so|then|ok(ay)?|what about|how about|same for|why not)\b/i,
+    /\b(it|that|this|those|these|they|them|above|earlier|previous|you said|you mentioned)\b/i,
+    /\b(my|mine|i'm|im|i've|ive|should i)\b/i // Personal situations are not FAQs
+];
+
+// Live data: contract addresses, transaction hashes, links, tickers with prices
+const LIVE_DATA_PATTERN = /0x[a-fA-F0-9]{6,}|[1-9A-HJ-NP-Za-km-z]{32,44}|https?:\/\/|\$\d|\b(today|now|right now|currently|price)\b/i;
+
+/**
+ * Normalise a question for matching.
+ */
+export function normaliseQuestion(question: string): string {
+    return question
+        .toLowerCase()
+        .replace(/n['’]t\b/g, ' not') // "isn't" and "is not" normalise alike
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(word => word && !FILLER_WORDS.has(word))
+        .join(' ');
+}
+
+/**
+ * Whether a question is a standalone FAQ whose answer can be shared.
+ */
+export function isCacheableQuestion(question: string): boolean {
+    const text = question.trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+
+    if (words === 0 || words > MAX_CACHEABLE_WORDS) return false;
+    if (LIVE_DATA_PATTERN.test(text)) return false;
+    if (FOLLOW_UP_PATTERNS.some(pattern => pattern.test(text))) return false;
+    return normaliseQuestion(text).length > 0;
+}
+
+/**
+ * Jaccard overlap of question tokens. Loose: "what is a stop loss" and
+ * "what is a trailing stop loss" score 0.8, so use a high threshold.
+ */
+export const tokenOverlapSimilarity: SimilarityFunction = (a, b) => {
+    const tokensA = new Set(a.split(' '));
+    const tokensB = new Set(b.split(' '));
+    let shared = 0;
+    for (const token of tokensA) {
+        if (tokensB.has(token)) shared++;
+    }
+    const union = tokensA.size + tokensB.size - shared;
+    return union === 0 ? 0 : shared / union;
+};
+
+/**
+ * In-memory cache (lost on restart). Oldest entries are evicted once a
+ * scope holds MAX_ENTRIES_PER_SCOPE answers.
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+    private scopes = new Map<string, CacheEntry[]>();
+
+    async entries(scope: string): Promise<CacheEntry[]> {
+        const now = Date.now();
+        const live = (this.scopes.get(scope) || []).filter(entry => entry.expiresAt > now);
+        this.scopes.set(scope, live);
+        return live;
+    }
+
+    async put(entry: CacheEntry): Promise<void> {
+        const entries = (this.scopes.get(entry.scope) || []).filter(existing => existing.question !== entry.question);
+        entries.push(entry);
+        this.scopes.set(entry.scope, entries.slice(-MAX_ENTRIES_PER_SCOPE));
+    }
+
+    async clear(): Promise<void> {
+        this.scopes.clear();
+    }
+}
+
+let cacheStore: ResponseCacheStore = new InMemoryResponseCacheStore();
+// No fuzzy matching until a similarity function is set
+let similarity: SimilarityFunction | null = null;
+let similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD;
+
+export function setResponseCacheStore(store: ResponseCacheStore): void {
+    cacheStore = store;
+}
+
+export function getResponseCacheStore(): ResponseCacheStore {
+    return cacheStore;
+}
+
+/**
+ * Set the similarity function (e.g. embeddings cosine) and its threshold,
+ * or pass null to go back to exact matches only.
+ */
+export function setSimilarityFunction(fn: SimilarityFunction | null, threshold: number = DEFAULT_SIMILARITY_THRESHOLD): void {
+    similarity = fn;
+    similarityThreshold = threshold;
+}
+
+function negations(question: string): string {
+    return question.split(' ').filter(word => NEGATION_WORDS.has(word)).sort().join(' ');
+}
+
+/**
+ * Cache scope for a request.
+ */
+export function cacheScope(persona: string, language: string, promptVersion: string): string {
+    return `${persona}|${language}|${promptVersion}`;
+}
+
+/**
+ * Find a cached answer for a question. Store errors are logged and
+ * treated as a miss.
+ */
+export async function lookupCachedResponse(scope: string, question: string): Promise<CacheEntry | null> {
+    const normalised = normaliseQuestion(question);
+
+    try {
+        const now = Date.now();
+        const entries = (await cacheStore.entries(scope)).filter(entry => entry.expiresAt > now);
+
+        const exact = entries.find(entry => entry.question === normalised);
+        if (exact || !similarity) return exact || null;
+
+        const negated = negations(normalised);
+        let best: CacheEntry | null = null;
+        let bestScore = similarityThreshold;
+        for (const entry of entries) {
+            if (negations(entry.question) !== negated) continue;
+            const score = similarity(normalised, entry.question);
+            if (score >= bestScore) {
+                best = entry;
+                bestScore = score;
+            }
+        }
+        return best;
+    } catch (error: any) {
+        console.error('[Cache] Lookup failed:', error.message || error);
+        return null;
+    }
+}
+
+/**
+ * Cache an answer. Store errors are logged, never thrown.
+ */
+export async function storeCachedResponse(
+    scope: string,
+    question: string,
+    content: string,
+    model: string,
+    ttlMs: number = CACHE_TTL_MS
+): Promise<void> {
+    const now = Date.now();
+
+    try {
+        await cacheStore.put({
+            scope,
+            question: normaliseQuestion(question),
+            content,
+            model,
+            createdAt: now,
+            expiresAt: now + ttlMs
+        });
+    } catch (error: any) {
+        console.error('[Cache] Store failed:', error.message || error);
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * Response Length Controller
+ *
+ * Matches answers to the DYNAMIC RESPONSE LENGTH rules in the system
+ * prompt. A lightweight classifier sorts the question into a tier, the
+ * tier sets the target length and max_tokens, and answers cut off by
+ * max_tokens (finish_reason=length) are continued once or closed at the
+ * last complete sentence instead of ending mid-word.
+ *
+ * Tiers:
+ * - simple: definitions, quick facts (600-900 chars)
+ * - medium: how-to, comparisons (1000-1400 chars)
+ * - complex: strategy, analysis (1500-2000 chars)
+ *
+ * Token budgets are set for English and scaled per language: the same
+ * number of characters takes more tokens in Russian or Turkish.
+ */
+
+import { SupportedLanguage } from './language';
+
+// Type definitions
+export type LengthTier = 'simple' | 'medium' | 'complex';
+
+export interface LengthPlan {
+    tier: LengthTier;
+    minChars: number;
+    maxChars: number;
+    maxTokens: number; // ~4 chars/token with headroom for markdown and slang
+    continuationMaxTokens: number; // Follow-up round after finish_reason=length
+}
+
+// Follow-up round after finish_reason=length (English)
+export const CONTINUATION_MAX_TOKENS = 250;
+
+// English budgets
+export const LENGTH_TIERS: Record<LengthTier, LengthPlan> = {
+    simple: { tier: 'simple', minChars: 600, maxChars: 900, maxTokens: 400, continuationMaxTokens: CONTINUATION_MAX_TOKENS },
+    medium: { tier: 'medium', minChars: 1000, maxChars: 1400, maxTokens: 600, continuationMaxTokens: CONTINUATION_MAX_TOKENS },
+    complex: { tier: 'complex', minChars: 1500, maxChars: 2000, maxTokens: 900, continuationMaxTokens: CONTINUATION_MAX_TOKENS }
+};
+
+// Tokens per character relative to English, rounded up from tokenizer
+// counts on translated answers (Cyrillic and Turkish suffixes split into
+// many more tokens)
+export const LANGUAGE_TOKEN_FACTORS: Record<SupportedLanguage, number> = {
+    en: 1,
+    es: 1.3,
+    tr: 1.7,
+    ru: 2
+};
+export const CONTINUATION_PROMPT = 'Your answer was cut off. Continue exactly where you stopped ' +
+    '(do not repeat anything) and wrap up within 2-3 sentences.';
+
+const COMPLEX_SIGNALS = [
+    /\bstrateg(y|ies|ic)\b/i,
+    /\b(analy[sz]e|analysis|breakdown|deep dive)\b/i,
+    /\b(portfolio|allocation|rebalanc\w*|position siz\w*|risk management)\b/i,
+    /\b(should i|what would you do|help me (plan|decide))\b/i,
+    /\b(pros and cons|trade-?offs?|long[- ]term plan)\b/i
+];
+
+const MEDIUM_SIGNALS = [
+    /\bhow (do|does|can|to|should)\b/i,
+    /\b(vs\.?|versus|compare|comparison|difference between|better)\b/i,
+    /\bwhy\b/i,
+    /\b(steps?|guide|setup)\b/i
+];
+
+const SIMPLE_SIGNALS = [
+    /^(what|who|when|where)('s| is| are| was| does)\b/i,
+    /\b(define|definition|meaning of|stand for|stands for)\b/i,
+    /^(gm|gn|hi|hey|yo|thanks|ty|wagmi)\b/i
+];
+
+/**
+ * Classify a question into a length tier. Heuristic: keyword signals
+ * first, then length and the number of questions asked.
+ */
+export function classifyQuestion(message: string): LengthTier {
+    const text = message.trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const questions = (text.match(/\?/g) || []).length;
+
+    if (COMPLEX_SIGNALS.some(pattern => pattern.test(text)) || words > 60 || questions >= 3) {
+        return 'complex';
+    }
+    if (MEDIUM_SIGNALS.some(pattern => pattern.test(text)) || words > 25 || questions === 2) {
+        return 'medium';
+    }
+    if (SIMPLE_SIGNALS.some(pattern => pattern.test(text)) || words <= 12) {
+        return 'simple';
+    }
+    return 'medium';
+}
+
+/**
+ * Length plan for a user message, with token budgets for the answer language.
+ */
+export function planResponseLength(message: string, language: SupportedLanguage = 'en'): LengthPlan {
+    const plan = LENGTH_TIERS[classifyQuestion(message)];
+    const factor = LANGUAGE_TOKEN_FACTORS[language] ?? 1;
+
+    return {
+        ...plan,
+        maxTokens: Math.ceil(plan.maxTokens * factor),
+        continuationMaxTokens: Math.ceil(plan.continuationMaxTokens * factor)
+    };
+}
+
+/**
+ * Target length line for the system prompt.
+ */
+export function describeLengthPlan(plan: LengthPlan): string {
+    return `${plan.tier.toUpperCase()} question -> ${plan.minChars}-${plan.maxChars} characters`;
+}
+
+/**
+ * Close an answer that still ended on max_tokens: cut back to the last
+ * complete sentence (never before `minIndex`, e.g. text already sent).
+ */
+export function closeTruncatedAnswer(text: string, minIndex: number = 0): string {
+    const trimmed = text.trimEnd();
+
+    // Last sentence end or paragraph break that leaves a reasonable answer
+    let cut = -1;
+    const boundary = /[.!?](?=\s|$)|\n\n/g;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(trimmed)) !== null) {
+        cut = match.index + (match[0] === '\n\n' ? 0 : 1);
+    }
+
+    if (cut >= Math.max(minIndex, trimmed.length / 2)) {
+        return trimmed.slice(0, cut).trimEnd();
+    }
+
+    // No usable boundary: mark the cut instead of pretending it is finished
+    return `${trimmed}...`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Upstream Retry Policy
+ *
+ * A single 429 or 502 from OpenRouter should not become a user-facing
+ * error. Provider HTTP requests are retried with jittered exponential
+ * backoff before the fallback chain (modelFallback.ts) moves to another
+ * model.
+ *
+ * Policy:
+ * - Retried: 408, 429, 500, 502, 503, 504 and network failures
+ * - Never retried: other 4xx (the request itself is wrong) and aborts
+ *   (our timeout or the caller cancelling)
+ * - Retry-After is honoured; when it asks for longer than
+ *   maxRetryAfterMs the error is returned at once so another model can
+ *   take over
+ * - Only the HTTP request is retried: a stream that has started
+ *   delivering tokens is never replayed, so users never see text twice
+ *
+ * Configuration (environment):
+ * - AI_RETRY_MAX_ATTEMPTS: attempts per request including the first
+ *   (default 3, also used when the value is not a number of at least 1)
+ */
+
+// Type definitions
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number; // Cap on a single backoff delay
+    maxRetryAfterMs: number; // Longer Retry-After values are not waited for
+}
+
+/**
+ * Error shape the policy understands (ProviderError satisfies it).
+ */
+export interface RetryableFailure {
+    status?: number;
+    retryAfterMs?: number;
+}
+
+// Unset, non-numeric or below-1 values fall back to the default
+function attemptsFromEnv(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '', 10);
+    return Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: attemptsFromEnv(process.env.AI_RETRY_MAX_ATTEMPTS, 3),
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    maxRetryAfterMs: 10000
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Whether repeating the same request could succeed.
+ */
+export function isRetryableError(error: any): boolean {
+    if (error?.name === 'AbortError') return false;
+    if (typeof error?.status === 'number') return RETRYABLE_STATUSES.has(error.status);
+    // fetch rejects with TypeError on network failures
+    return error instanceof TypeError;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header.trim());
+    if (Number.isFinite(seconds)) {
+        return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (1 = first retry): Retry-After when
+ * given, else "full jitter" exponential backoff.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) return retryAfterMs;
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            const error = new Error('Aborted during retry backoff');
+            error.name = 'AbortError';
+            reject(error);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+
+        if (signal?.aborted) abort();
+        else signal?.addEventListener('abort', abort, { once: true });
+    });
+}
+
+/**
+ * Run `operation` until it succeeds, fails with a non-retryable error or
+ * runs out of attempts. Backoff sleeps end early when `signal` aborts.
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    options: { signal?: AbortSignal; label?: string; policy?: RetryPolicy } = {}
+): Promise<T> {
+    const policy = options.policy || DEFAULT_RETRY_POLICY;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error: any) {
+            const failure = error as RetryableFailure;
+
+            if (attempt >= policy.maxAttempts || options.signal?.aborted || !isRetryableError(error)) {
+                throw error;
+            }
+            if (failure.retryAfterMs !== undefined && failure.retryAfterMs > policy.maxRetryAfterMs) {
+                console.warn(`[Retry] ${options.label || 'request'}: Retry-After ${failure.retryAfterMs}ms too long, giving up`);
+                throw error;
+            }
+
+            const delay = backoffDelay(attempt, policy, failure.retryAfterMs);
+            console.warn(`[Retry] ${options.label || 'request'} failed (${failure.status ?? error.message}), ` +
+                `attempt ${attempt + 1}/${policy.maxAttempts} in ${delay}ms`);
+            await sleep(delay, options.signal);
+        }
+    }
+}
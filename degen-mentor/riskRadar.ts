@@ -1,24 +1,53 @@
 ﻿/**
  * Risk Radar Service
  * 
- * Token security analysis engine using GoPlus API.
- * Supports Ethereum and Solana token scanning.
+ * Token security analysis engine. Data comes from pluggable sources
+ * (GoPlus, Honeypot.is) merged by consensus; see securitySources.ts.
+ * Supports EVM chains (Ethereum, BSC, Base, Arbitrum, Polygon) and Solana.
  * 
- * Checks performed:
+ * Checks performed (EVM):
  * - Honeypot detection
  * - Developer holding analysis
- * - Liquidity lock status
+ * - Liquidity lock, burn and depth across all LP holders
  * - Contract verification
  * - Ownership analysis
  * - Mint/pause capabilities
+ *
+ * Checks performed (Solana, SPL / Token-2022):
+ * - Mint and freeze authority
+ * - Metadata mutability
+ * - Transfer fee and transfer hook extensions
+ * - Non-transferable tokens and mutable balances
+ *
+ * Scores come from a configurable rule set (see riskRules.ts).
+ * Scan output is localised (see language.ts).
  */
 
+import { MessageKey, SupportedLanguage, t } from './language';
+import { evaluateRiskRules, RiskContribution, RiskEvaluation, RiskLevel } from './riskRules';
+import { fetchSecurityData, FieldSources, SecurityData, SecurityField } from './securitySources';
+
+// Type definitions
+export type EvmChainKey = 'eth' | 'bsc' | 'base' | 'arbitrum' | 'polygon';
+
+export interface EvmChain {
+    key: EvmChainKey;
+    id: string; // EIP-155 chain ID
+    name: string;
+    aliases: string[]; // Other names users type ("bnb", "matic", ...)
+}
+
 export interface TokenScan {
     found: boolean;
     address: string;
     name?: string;
     symbol?: string;
 
+    // Where the token lives
+    chain?: EvmChainKey | 'sol';
+    chainName?: string;
+    otherChains?: string[]; // Other EVM chains with a token at the same address
+
     // Risk indicators
     honeypot: boolean;
     devHoldsPercent: number;
@@ -32,160 +61,310 @@ export interface TokenScan {
 
     // Additional flags
     flags: string[];
+
+    // Why the score is what it is: every matched rule and its weight
+    contributions?: RiskContribution[];
+    ruleSet?: string; // Rule set version (riskRules.ts)
+
+    // Solana-only details (the EVM fields above are filled from them where they map)
+    solana?: SolanaTokenRisks;
+
+    // LP position across all reported LP holders (EVM)
+    liquidity?: LiquidityDetails;
+
+    // Where the data came from (securitySources.ts)
+    sources?: string[]; // Sources that returned data
+    fieldSources?: FieldSources; // Sources agreeing with each value
+    disagreements?: SecurityField[];
+    confidence?: number; // 0-1 agreement between sources
 }
 
-// GoPlus API response type
-interface GoPlusResponse {
-    result: {
-        [address: string]: {
-            token_name?: string;
-            token_symbol?: string;
-            is_honeypot?: string;
-            creator_percent?: string;
-            lp_holders?: Array<{ is_locked: number }>;
-            is_open_source?: string;
-            is_proxy?: string;
-            can_take_back_ownership?: string;
-            hidden_owner?: string;
-            selfdestruct?: string;
-            external_call?: string;
-            is_mintable?: string;
-            transfer_pausable?: string;
-            trading_cooldown?: string;
-        };
-    };
+export interface LiquidityDetails {
+    lockedPercent?: number; // Share of LP supply in lockers
+    burnedPercent?: number; // Share of LP supply sent to dead addresses
+    lockExpiresAt?: string; // Earliest unlock of a locked position (ISO date)
+    lockDaysLeft?: number;
+    liquidityUsd?: number; // Across all DEX pools
+}
+
+export interface SolanaTokenRisks {
+    mintAuthority: boolean; // Supply can still be increased
+    freezeAuthority: boolean; // Token accounts can be frozen (holders cannot sell)
+    metadataMutable: boolean; // Name/symbol/image can be changed
+    transferFeePercent: number; // Token-2022 transfer fee, 0 when none
+    transferFeeUpgradable: boolean;
+    transferHook: boolean; // Token-2022 transfer hook: custom program runs on every transfer
+    closable: boolean; // Mint can be closed
+    nonTransferable: boolean;
+    balanceMutable: boolean; // An authority can change holder balances
+}
+
+export interface ScanOptions {
+    chain?: string; // Chain key, ID, name or alias; probes RISK_RADAR_EVM_CHAINS when omitted
+}
+
+export const EVM_CHAINS: Record<EvmChainKey, EvmChain> = {
+    eth: { key: 'eth', id: '1', name: 'Ethereum', aliases: ['ethereum', 'mainnet', 'erc20'] },
+    bsc: { key: 'bsc', id: '56', name: 'BNB Smart Chain', aliases: ['bnb', 'binance', 'bep20'] },
+    base: { key: 'base', id: '8453', name: 'Base', aliases: [] },
+    arbitrum: { key: 'arbitrum', id: '42161', name: 'Arbitrum', aliases: ['arb', 'arbitrum one'] },
+    polygon: { key: 'polygon', id: '137', name: 'Polygon', aliases: ['matic', 'pol'] }
+};
+
+/**
+ * Find an EVM chain by key, chain ID, name or alias (case-insensitive).
+ */
+export function resolveEvmChain(value: string): EvmChain | null {
+    const wanted = value.trim().toLowerCase();
+    return Object.values(EVM_CHAINS).find(chain =>
+        chain.key === wanted || chain.id === wanted || chain.name.toLowerCase() === wanted || chain.aliases.includes(wanted)
+    ) || null;
+}
+
+/**
+ * Chains probed for a 0x address when none is given. Configured with
+ * RISK_RADAR_EVM_CHAINS (comma-separated keys or IDs); unknown entries
+ * are ignored.
+ */
+function probeChains(): EvmChain[] {
+    const configured = (process.env.RISK_RADAR_EVM_CHAINS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(resolveEvmChain)
+        .filter((chain): chain is EvmChain => chain !== null);
+
+    return configured.length > 0 ? configured : Object.values(EVM_CHAINS);
 }
 
 /**
  * Detect blockchain from address format.
- * - Ethereum: 0x prefix, 42 characters
+ * - EVM (Ethereum, BSC, Base, ...): 0x prefix, 42 characters
  * - Solana: base58, 32-44 characters
  */
-function detectChain(address: string): { chain: 'eth' | 'sol' | 'unknown'; chainId: string } {
-    // Ethereum format
+function detectChain(address: string): 'evm' | 'sol' | 'unknown' {
+    // EVM format
     if (address.startsWith('0x') && address.length === 42) {
-        return { chain: 'eth', chainId: '1' };
+        return 'evm';
     }
 
     // Solana format
     if (!address.startsWith('0x') && address.length >= 32 && address.length <= 44) {
         const base58Regex = /^[1-9A-HJ-NP-Za-km-z]+$/;
         if (base58Regex.test(address)) {
-            return { chain: 'sol', chainId: '900' };
+            return 'sol';
         }
     }
 
-    return { chain: 'unknown', chainId: '1' };
+    return 'unknown';
 }
 
 /**
  * Scan a token for security risks.
- * Uses GoPlus Security API (free tier).
+ * Asks every configured security source (securitySources.ts).
+ *
+ * 0x addresses are checked on `options.chain` when given, otherwise on
+ * every probe chain in parallel. When the same address holds a token on
+ * several chains, the one with the most holders is scanned and the others
+ * are listed in `otherChains`.
  */
-export async function scanToken(address: string): Promise<TokenScan> {
-    const { chain, chainId } = detectChain(address);
+export async function scanToken(address: string, options: ScanOptions = {}): Promise<TokenScan> {
+    const format = detectChain(address);
 
-    if (chain === 'unknown') {
-        return createUnknownResult(address, 'Invalid address format. Use ETH (0x...) or Solana address.');
+    if (format === 'unknown') {
+        return createUnknownResult(address, 'Invalid address format. Use an EVM (0x...) or Solana address.');
     }
 
-    const cleanAddress = chain === 'eth' ? address.toLowerCase() : address;
+    if (format === 'sol') {
+        if (options.chain && options.chain.toLowerCase() !== 'sol' && options.chain.toLowerCase() !== 'solana') {
+            return createUnknownResult(address, `Not a ${options.chain} address (looks like Solana).`);
+        }
+        return scanSolanaToken(address);
+    }
 
-    try {
-        console.log(`[RiskRadar] Scanning ${chain.toUpperCase()} token:`, cleanAddress);
+    let chains = probeChains();
+    if (options.chain) {
+        const explicit = resolveEvmChain(options.chain);
+        if (!explicit) {
+            return createUnknownResult(address, `Unknown chain "${options.chain}". Supported: ${Object.values(EVM_CHAINS).map(chain => chain.name).join(', ')}.`);
+        }
+        chains = [explicit];
+    }
 
-        const url = `https://api.gopluslabs.io/api/v1/token_security/${chainId}?contract_addresses=${cleanAddress}`;
-        const response = await fetch(url);
-        const data = await response.json() as GoPlusResponse;
+    const cleanAddress = address.toLowerCase();
+    console.log(`[RiskRadar] Scanning EVM token on ${chains.map(chain => chain.key).join(', ')}:`, cleanAddress);
+
+    const probes = await Promise.allSettled(chains.map(chain => fetchSecurityData(chain, cleanAddress)));
+
+    const matches = chains
+        .map((chain, index) => {
+            const probe = probes[index];
+            if (probe.status === 'rejected') {
+                console.error(`[RiskRadar] Scan error on ${chain.name}:`, probe.reason);
+                return null;
+            }
+            return probe.value ? { chain, data: probe.value } : null;
+        })
+        .filter((match): match is { chain: EvmChain; data: SecurityData } => match !== null);
+
+    if (matches.length === 0) {
+        if (probes.every(probe => probe.status === 'rejected')) {
+            return createUnknownResult(cleanAddress, 'Error scanning token. Try again.');
+        }
+        // Only chains that answered were searched; say which ones could not be checked
+        const searched = chains.filter((_, index) => probes[index].status === 'fulfilled').map(chain => chain.name).join(', ');
+        const errored = chains.filter((_, index) => probes[index].status === 'rejected').map(chain => chain.name).join(', ');
+        const reason = `Token not found on ${searched}` + (errored ? ` (could not check ${errored})` : '');
+        console.log(`[RiskRadar] ${reason}`);
+        return createUnknownResult(cleanAddress, reason);
+    }
 
-        // Check if token was found
-        const tokenData = data.result?.[cleanAddress];
+    // Same address on several chains (CREATE2 deployments, copycats): the busiest one is the real play
+    const [primary, ...others] = [...matches].sort((a, b) =>
+        (b.data.fields.holderCount || 0) - (a.data.fields.holderCount || 0));
 
-        if (!tokenData) {
-            console.log(`[RiskRadar] Token not found on ${chain === 'eth' ? 'Ethereum' : 'Solana'}`);
-            return createUnknownResult(cleanAddress, `Token not found on ${chain === 'eth' ? 'Ethereum mainnet' : 'Solana'}`);
-        }
+    if (others.length > 0) {
+        console.log(`[RiskRadar] ${cleanAddress} found on ${matches.length} chains, using ${primary.chain.name}`);
+    }
 
-        // Parse security data
-        const honeypot = tokenData.is_honeypot === '1';
-        const devHoldsPercent = parseFloat(tokenData.creator_percent || '0') * 100;
-        const liquidityLocked = tokenData.lp_holders?.[0]?.is_locked === 1;
-        const contractVerified = tokenData.is_open_source === '1';
-
-        // Collect risk flags
-        const flags: string[] = [];
-
-        if (honeypot) flags.push('[CRITICAL] HONEYPOT DETECTED');
-        if (tokenData.is_proxy === '1') flags.push('[WARN] Proxy contract');
-        if (tokenData.can_take_back_ownership === '1') flags.push('[WARN] Ownership can be reclaimed');
-        if (tokenData.hidden_owner === '1') flags.push('[WARN] Hidden owner');
-        if (tokenData.selfdestruct === '1') flags.push('[WARN] Can self-destruct');
-        if (tokenData.external_call === '1') flags.push('[WARN] External calls');
-        if (devHoldsPercent > 50) flags.push(`[HIGH] Dev holds ${devHoldsPercent.toFixed(1)}%`);
-        else if (devHoldsPercent > 20) flags.push(`[MEDIUM] Dev holds ${devHoldsPercent.toFixed(1)}%`);
-        if (!liquidityLocked) flags.push('[MEDIUM] Liquidity not locked');
-        if (!contractVerified) flags.push('[MEDIUM] Contract not verified');
-        if (tokenData.is_mintable === '1') flags.push('[WARN] Token is mintable');
-        if (tokenData.transfer_pausable === '1') flags.push('[WARN] Transfers can be paused');
-        if (tokenData.trading_cooldown === '1') flags.push('[WARN] Trading cooldown enabled');
-
-        // Calculate risk score (0-100)
-        let riskScore = 0;
-
-        if (honeypot) riskScore += 100;
-        if (devHoldsPercent > 50) riskScore += 40;
-        else if (devHoldsPercent > 20) riskScore += 20;
-        else if (devHoldsPercent > 10) riskScore += 10;
-        if (!liquidityLocked) riskScore += 20;
-        if (!contractVerified) riskScore += 15;
-        if (tokenData.is_mintable === '1') riskScore += 10;
-        if (tokenData.can_take_back_ownership === '1') riskScore += 15;
-        if (tokenData.hidden_owner === '1') riskScore += 10;
-        if (tokenData.selfdestruct === '1') riskScore += 25;
-
-        riskScore = Math.min(100, riskScore);
-
-        // Determine risk level
-        let riskLevel: TokenScan['riskLevel'];
-        let verdict: string;
-
-        if (honeypot || riskScore >= 80) {
-            riskLevel = 'CRITICAL';
-            verdict = 'DO NOT BUY - Critical risks detected!';
-        } else if (riskScore >= 50) {
-            riskLevel = 'HIGH';
-            verdict = 'HIGH RISK - Proceed with extreme caution';
-        } else if (riskScore >= 25) {
-            riskLevel = 'MEDIUM';
-            verdict = 'MEDIUM RISK - Research more before buying';
-        } else {
-            riskLevel = 'LOW';
-            verdict = 'LOW RISK - Looks relatively safe';
-        }
+    return {
+        ...analyseToken(cleanAddress, primary.data),
+        chain: primary.chain.key,
+        chainName: primary.chain.name,
+        otherChains: others.length > 0 ? others.map(match => match.chain.name) : undefined
+    };
+}
 
-        console.log(`[RiskRadar] Scan complete: ${riskLevel} (score: ${riskScore})`);
-
-        return {
-            found: true,
-            address: cleanAddress,
-            name: tokenData.token_name || undefined,
-            symbol: tokenData.token_symbol || undefined,
-            honeypot,
-            devHoldsPercent,
-            liquidityLocked,
-            contractVerified,
-            riskScore,
-            riskLevel,
-            verdict,
-            flags
-        };
+/**
+ * Solana tokens have their own facts and scoring.
+ */
+async function scanSolanaToken(address: string): Promise<TokenScan> {
+    try {
+        console.log('[RiskRadar] Scanning SOL token:', address);
+
+        const data = await fetchSecurityData({ key: 'sol', id: 'solana' }, address);
 
+        if (!data) {
+            console.log('[RiskRadar] Token not found on Solana');
+            return createUnknownResult(address, 'Token not found on Solana');
+        }
+
+        return { ...analyseSolanaToken(address, data), chain: 'sol', chainName: 'Solana' };
     } catch (error) {
         console.error('[RiskRadar] Scan error:', error);
-        return createUnknownResult(cleanAddress, 'Error scanning token. Try again.');
+        return createUnknownResult(address, 'Error scanning token. Try again.');
     }
 }
 
+/**
+ * Score merged security data with the rule set (riskRules.ts).
+ */
+function analyseToken(address: string, data: SecurityData): TokenScan {
+    const { name, symbol, holderCount, lpLockExpiresAt, ...facts } = data.fields;
+    const evaluation = evaluateRiskRules(facts);
+
+    const liquidity: LiquidityDetails = {
+        lockedPercent: facts.lpLockedPercent,
+        burnedPercent: facts.lpBurnedPercent,
+        lockExpiresAt: lpLockExpiresAt,
+        lockDaysLeft: facts.lpLockDaysLeft,
+        liquidityUsd: facts.liquidityUsd
+    };
+
+    console.log(`[RiskRadar] Scan complete: ${evaluation.riskLevel} (score: ${evaluation.riskScore}, rules: ${evaluation.ruleSet}, ` +
+        `sources: ${data.sources.join('+')}, confidence: ${data.confidence})`);
+
+    return {
+        found: true,
+        address,
+        name,
+        symbol,
+        honeypot: facts.honeypot ?? false,
+        devHoldsPercent: facts.devHoldsPercent ?? 0,
+        liquidityLocked: facts.liquidityLocked ?? false,
+        contractVerified: facts.contractVerified ?? false,
+        liquidity: Object.values(liquidity).some(value => value !== undefined) ? liquidity : undefined,
+        ...scoredFields(evaluation),
+        ...attributionFields(data)
+    };
+}
+
+// Verdict per risk level
+const VERDICTS: Record<RiskLevel, string> = {
+    CRITICAL: 'DO NOT BUY - Critical risks detected!',
+    HIGH: 'HIGH RISK - Proceed with extreme caution',
+    MEDIUM: 'MEDIUM RISK - Research more before buying',
+    LOW: 'LOW RISK - Looks relatively safe'
+};
+
+/**
+ * TokenScan fields that come from the rule evaluation.
+ */
+function scoredFields(evaluation: RiskEvaluation): Pick<TokenScan, 'riskScore' | 'riskLevel' | 'verdict' | 'flags' | 'contributions' | 'ruleSet'> {
+    return {
+        riskScore: evaluation.riskScore,
+        riskLevel: evaluation.riskLevel,
+        verdict: VERDICTS[evaluation.riskLevel],
+        flags: evaluation.flags,
+        contributions: evaluation.contributions,
+        ruleSet: evaluation.ruleSet
+    };
+}
+
+/**
+ * Score a Solana token. SPL tokens share the audited token program, so
+ * the risks are in who still holds which authority and which Token-2022
+ * extensions are enabled, not in contract code.
+ */
+function analyseSolanaToken(address: string, data: SecurityData): TokenScan {
+    const { fields } = data;
+    const solana: SolanaTokenRisks = {
+        mintAuthority: fields.mintAuthority ?? false,
+        freezeAuthority: fields.freezeAuthority ?? false,
+        metadataMutable: fields.metadataMutable ?? false,
+        transferFeePercent: fields.transferFeePercent ?? 0,
+        transferFeeUpgradable: fields.transferFeeUpgradable ?? false,
+        transferHook: fields.transferHook ?? false,
+        closable: fields.closable ?? false,
+        nonTransferable: fields.nonTransferable ?? false,
+        balanceMutable: fields.balanceMutable ?? false
+    };
+    const devHoldsPercent = fields.devHoldsPercent ?? 0;
+
+    // No liquidityLocked/contractVerified facts: those rules do not apply to SPL tokens
+    const evaluation = evaluateRiskRules({ ...solana, devHoldsPercent });
+
+    console.log(`[RiskRadar] Solana scan complete: ${evaluation.riskLevel} (score: ${evaluation.riskScore}, rules: ${evaluation.ruleSet}, ` +
+        `sources: ${data.sources.join('+')}, confidence: ${data.confidence})`);
+
+    return {
+        found: true,
+        address,
+        name: fields.name,
+        symbol: fields.symbol,
+        // Tokens that cannot be sold by holders
+        honeypot: solana.nonTransferable || solana.balanceMutable,
+        devHoldsPercent,
+        liquidityLocked: false, // Not reported for Solana; see solana.* instead
+        contractVerified: true, // Shared SPL token program
+        ...scoredFields(evaluation),
+        ...attributionFields(data),
+        solana
+    };
+}
+
+/**
+ * TokenScan fields that say where the data came from.
+ */
+function attributionFields(data: SecurityData): Pick<TokenScan, 'sources' | 'fieldSources' | 'disagreements' | 'confidence'> {
+    return {
+        sources: data.sources,
+        fieldSources: data.fieldSources,
+        disagreements: data.disagreements.length > 0 ? data.disagreements : undefined,
+        confidence: data.confidence
+    };
+}
+
 /**
  * Create a result for unknown/not-found tokens.
  */
@@ -204,19 +383,85 @@ function createUnknownResult(address: string, verdict: string): TokenScan {
     };
 }
 
+// Flag text (after the [TAG]) → localised label
+const FLAG_LABELS: Record<string, MessageKey> = {
+    'HONEYPOT DETECTED': 'honeypotDetected',
+    'Proxy contract': 'flagProxy',
+    'Ownership can be reclaimed': 'flagOwnershipReclaim',
+    'Hidden owner': 'flagHiddenOwner',
+    'Can self-destruct': 'flagSelfDestruct',
+    'External calls': 'flagExternalCalls',
+    'Liquidity not locked': 'liquidityNotLocked',
+    'Contract not verified': 'contractNotVerified',
+    'Token is mintable': 'flagMintable',
+    'Transfers can be paused': 'flagPausable',
+    'Trading cooldown enabled': 'flagCooldown',
+    'Token cannot be transferred': 'flagNonTransferable',
+    'Balances can be changed by an authority': 'flagBalanceMutable',
+    'Freeze authority active': 'flagFreezeAuthority',
+    'Mint authority active': 'flagMintAuthority',
+    'Transfer fee can be changed': 'flagTransferFeeUpgradable',
+    'Transfer hook enabled': 'flagTransferHook',
+    'Metadata can be changed': 'flagMetadataMutable',
+    'Token can be closed': 'flagClosable'
+};
+
+/**
+ * Localise a rule message. Messages from custom rule sets pass through.
+ */
+function localiseMessage(text: string, language: SupportedLanguage): string {
+    const devHolds = text.match(/^Dev holds ([\d.]+)%$/);
+    if (devHolds) return t(language, 'devHolds', { percent: devHolds[1] });
+
+    const transferFee = text.match(/^Transfer fee ([\d.]+)%$/);
+    if (transferFee) return t(language, 'flagTransferFee', { percent: transferFee[1] });
+
+    const lpUnsecured = text.match(/^Only ([\d.]+)% of LP locked or burned$/);
+    if (lpUnsecured) return t(language, 'flagLpUnsecured', { percent: lpUnsecured[1] });
+
+    const lpExpiring = text.match(/^LP lock expires in (\d+) days$/);
+    if (lpExpiring) return t(language, 'flagLpLockExpiring', { days: lpExpiring[1] });
+
+    const lowLiquidity = text.match(/^Low liquidity \(\$(\d+)\)$/);
+    if (lowLiquidity) return t(language, 'flagLowLiquidity', { amount: lowLiquidity[1] });
+
+    const key = FLAG_LABELS[text];
+    return key ? t(language, key) : text;
+}
+
+/**
+ * Localise a flag line, keeping its [TAG].
+ */
+function localiseFlag(flag: string, language: SupportedLanguage): string {
+    const match = flag.match(/^(\[\w+\]) (.+)$/);
+    return match ? `${match[1]} ${localiseMessage(match[2], language)}` : flag;
+}
+
+/**
+ * Weighted rules behind the score, e.g. "+40 Dev holds 55.0%".
+ */
+function scoreBreakdown(contributions: RiskContribution[], language: SupportedLanguage): string {
+    const weighted = contributions.filter(contribution => contribution.weight !== 0);
+    if (weighted.length === 0) return '';
+
+    const lines = weighted.map(contribution =>
+        `${contribution.weight > 0 ? '+' : ''}${contribution.weight} ${localiseMessage(contribution.message, language)}`);
+    return `*${t(language, 'scoreBreakdown')}:*\n${lines.join('\n')}\n`;
+}
+
 /**
- * Format scan result for Telegram display.
+ * Format scan result for Telegram display, localised to `language`.
  */
-export function formatScanResult(scan: TokenScan): string {
+export function formatScanResult(scan: TokenScan, language: SupportedLanguage = 'en'): string {
     if (!scan.found) {
         return `
-*RISK RADAR SCAN*
+*${t(language, 'scanTitle')}*
 
-Token: \`${scan.address.slice(0, 10)}...${scan.address.slice(-6)}\`
+${t(language, 'token')}: \`${scan.address.slice(0, 10)}...${scan.address.slice(-6)}\`
 
-Status: ${scan.verdict}
+${t(language, 'status')}: ${scan.verdict}
 
-_Try a token on Ethereum mainnet or Solana_
+_${t(language, 'tryAnotherToken')}_
 `;
     }
 
@@ -229,31 +474,83 @@ _Try a token on Ethereum mainnet or Solana_
         `${scan.name} (${scan.symbol})` :
         `${scan.address.slice(0, 10)}...${scan.address.slice(-6)}`;
 
+    // Verdicts follow the risk level, so they can be re-labelled per language
+    const verdict = scan.riskLevel === 'UNKNOWN' ? scan.verdict : t(language, `verdict${scan.riskLevel}`);
+    const flags = scan.flags.map(flag => localiseFlag(flag, language));
+    const chainLine = scan.chainName
+        ? `*${t(language, 'chain')}:* ${scan.chainName}\n` +
+            (scan.otherChains ? `_${t(language, 'alsoOnChains', { chains: scan.otherChains.join(', ') })}_\n` : '')
+        : '';
+    const sourcesLine = scan.sources
+        ? `_${t(language, 'dataSources', { sources: scan.sources.join(', '), confidence: Math.round((scan.confidence ?? 0) * 100) })}_\n` +
+            (scan.disagreements ? `_${t(language, 'sourcesDisagree', { fields: scan.disagreements.join(', ') })}_\n` : '')
+        : '';
+
     return `
-*RISK RADAR SCAN*
+*${t(language, 'scanTitle')}*
 
-*Token:* ${tokenName}
+*${t(language, 'token')}:* ${tokenName}
 \`${scan.address}\`
-
-${riskIndicator} *Risk Level:* ${scan.riskLevel}
-*Risk Score:* ${scan.riskScore}/100
+${chainLine}
+${riskIndicator} *${t(language, 'riskLevel')}:* ${t(language, `risk${scan.riskLevel}`)}
+*${t(language, 'riskScore')}:* ${scan.riskScore}/100
 \`[${riskBar}]\`
+${scan.contributions ? scoreBreakdown(scan.contributions, language) : ''}
+*${t(language, 'analysis')}:*
 
-*Analysis:*
-
-${scan.honeypot ? '[CRITICAL] HONEYPOT DETECTED!' : '[OK] Not a honeypot'}
-${scan.devHoldsPercent > 20 ? '[HIGH]' : scan.devHoldsPercent > 10 ? '[MEDIUM]' : '[OK]'} Dev holds ${scan.devHoldsPercent.toFixed(1)}%
-${scan.liquidityLocked ? '[OK] Liquidity locked' : '[MEDIUM] Liquidity NOT locked'}
-${scan.contractVerified ? '[OK] Contract verified' : '[MEDIUM] Contract not verified'}
+${scan.honeypot ? `[CRITICAL] ${t(language, 'honeypotDetected')}` : `[OK] ${t(language, 'notHoneypot')}`}
+${scan.devHoldsPercent > 20 ? '[HIGH]' : scan.devHoldsPercent > 10 ? '[MEDIUM]' : '[OK]'} ${t(language, 'devHolds', { percent: scan.devHoldsPercent.toFixed(1) })}
+${scan.solana ? solanaChecks(scan.solana, language) : evmChecks(scan, language)}
 
-${scan.flags.length > 0 ? `*Flags:*\n${scan.flags.join('\n')}\n` : ''}
+${flags.length > 0 ? `*${t(language, 'flags')}:*\n${flags.join('\n')}\n` : ''}
 
-*Verdict:* ${scan.verdict}
+*${t(language, 'verdict')}:* ${verdict}
 
-_Always DYOR. This scan is not financial advice._
+${sourcesLine}_${t(language, 'scanDisclaimer')}_
 `;
 }
 
+/**
+ * Liquidity and contract lines of the analysis (EVM tokens).
+ */
+function evmChecks(scan: TokenScan, language: SupportedLanguage): string {
+    return [
+        scan.liquidityLocked ? `[OK] ${t(language, 'liquidityLocked')}` : `[MEDIUM] ${t(language, 'liquidityNotLocked')}`,
+        ...(scan.liquidity ? liquidityLines(scan.liquidity, language) : []),
+        scan.contractVerified ? `[OK] ${t(language, 'contractVerified')}` : `[MEDIUM] ${t(language, 'contractNotVerified')}`
+    ].join('\n');
+}
+
+/**
+ * LP breakdown, lock expiry and pool depth, indented under the lock line.
+ */
+function liquidityLines(liquidity: LiquidityDetails, language: SupportedLanguage): string[] {
+    const lines: string[] = [];
+    if (liquidity.lockedPercent !== undefined && liquidity.burnedPercent !== undefined) {
+        lines.push(t(language, 'lpBreakdown', {
+            locked: liquidity.lockedPercent.toFixed(1),
+            burned: liquidity.burnedPercent.toFixed(1)
+        }));
+    }
+    if (liquidity.lockExpiresAt) {
+        lines.push(t(language, 'lpLockExpires', { date: liquidity.lockExpiresAt.slice(0, 10) }));
+    }
+    if (liquidity.liquidityUsd !== undefined) {
+        lines.push(t(language, 'liquidityDepth', { amount: Math.round(liquidity.liquidityUsd).toLocaleString('en-US') }));
+    }
+    return lines.map(line => `    ${line}`);
+}
+
+/**
+ * Authority lines of the analysis (Solana tokens).
+ */
+function solanaChecks(solana: SolanaTokenRisks, language: SupportedLanguage): string {
+    return [
+        solana.mintAuthority ? `[HIGH] ${t(language, 'flagMintAuthority')}` : `[OK] ${t(language, 'mintAuthorityRevoked')}`,
+        solana.freezeAuthority ? `[HIGH] ${t(language, 'flagFreezeAuthority')}` : `[OK] ${t(language, 'freezeAuthorityRevoked')}`
+    ].join('\n');
+}
+
 /**
  * Generate visual risk bar.
  */
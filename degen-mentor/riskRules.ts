@@ -0,0 +1,228 @@
+/**
+ * Risk Scoring Rules
+ *
+ * Declarative rule set behind the Risk Radar score, so the risk team can
+ * tune weights and thresholds without a code change.
+ *
+ * - Scanners turn provider data into facts (honeypot, devHoldsPercent,
+ *   mintAuthority, ...); see riskRadar.ts
+ * - Each rule tests one fact and, when it matches, adds its weight to the
+ *   score and (optionally) a flag to the report
+ * - Rules whose fact is missing for a token are skipped, so EVM and Solana
+ *   share one rule set
+ * - Every matched rule is returned as a contribution, which is how the
+ *   report explains a score of 65
+ *
+ * Rule sets are JSON; loadRiskRules validates and activates one at startup.
+ */
+
+import { readFile } from 'fs/promises';
+
+// Type definitions
+export type RuleSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'WARN';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export type TokenFacts = Record<string, boolean | number | undefined>;
+
+/**
+ * Fact test. Every comparator given must hold.
+ */
+export interface RuleCondition {
+    fact: string;
+    equals?: boolean | number;
+    gt?: number;
+    gte?: number;
+    lt?: number;
+    lte?: number;
+}
+
+export interface RiskRule {
+    id: string;
+    when: RuleCondition;
+    weight: number; // Added to the score when the rule matches (0 = flag only)
+    severity: RuleSeverity;
+    // Report text; {fact} or {fact:decimals} placeholders are filled from the facts
+    message: string;
+    flag?: boolean; // List in the report's flags (default true)
+    critical?: boolean; // A match makes the token CRITICAL whatever the score
+}
+
+export interface RiskRuleSet {
+    version: string;
+    thresholds: { critical: number; high: number; medium: number }; // Minimum score per level
+    rules: RiskRule[];
+}
+
+export interface RiskContribution {
+    rule: string;
+    weight: number;
+    severity: RuleSeverity;
+    message: string;
+}
+
+export interface RiskEvaluation {
+    riskScore: number; // 0-100
+    riskLevel: RiskLevel;
+    flags: string[]; // "[SEVERITY] message"
+    contributions: RiskContribution[];
+    ruleSet: string; // Version of the rule set used
+}
+
+const SEVERITIES: RuleSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'WARN'];
+
+// The weights the scanner shipped with, plus LP lock and liquidity depth rules
+export const DEFAULT_RISK_RULES: RiskRuleSet = {
+    version: 'default@2',
+    thresholds: { critical: 80, high: 50, medium: 25 },
+    rules: [
+        { id: 'honeypot', when: { fact: 'honeypot', equals: true }, weight: 100, severity: 'CRITICAL', message: 'HONEYPOT DETECTED', critical: true },
+        { id: 'non_transferable', when: { fact: 'nonTransferable', equals: true }, weight: 100, severity: 'CRITICAL', message: 'Token cannot be transferred', critical: true },
+        { id: 'balance_mutable', when: { fact: 'balanceMutable', equals: true }, weight: 100, severity: 'CRITICAL', message: 'Balances can be changed by an authority', critical: true },
+        { id: 'proxy', when: { fact: 'proxy', equals: true }, weight: 0, severity: 'WARN', message: 'Proxy contract' },
+        { id: 'ownership_reclaim', when: { fact: 'ownershipReclaimable', equals: true }, weight: 15, severity: 'WARN', message: 'Ownership can be reclaimed' },
+        { id: 'hidden_owner', when: { fact: 'hiddenOwner', equals: true }, weight: 10, severity: 'WARN', message: 'Hidden owner' },
+        { id: 'self_destruct', when: { fact: 'selfDestruct', equals: true }, weight: 25, severity: 'WARN', message: 'Can self-destruct' },
+        { id: 'external_call', when: { fact: 'externalCall', equals: true }, weight: 0, severity: 'WARN', message: 'External calls' },
+        { id: 'freeze_authority', when: { fact: 'freezeAuthority', equals: true }, weight: 40, severity: 'HIGH', message: 'Freeze authority active' },
+        { id: 'mint_authority', when: { fact: 'mintAuthority', equals: true }, weight: 30, severity: 'HIGH', message: 'Mint authority active' },
+        { id: 'transfer_fee_high', when: { fact: 'transferFeePercent', gt: 10 }, weight: 40, severity: 'HIGH', message: 'Transfer fee {transferFeePercent}%' },
+        { id: 'transfer_fee', when: { fact: 'transferFeePercent', gt: 0, lte: 10 }, weight: 15, severity: 'MEDIUM', message: 'Transfer fee {transferFeePercent}%' },
+        { id: 'transfer_fee_upgradable', when: { fact: 'transferFeeUpgradable', equals: true }, weight: 10, severity: 'WARN', message: 'Transfer fee can be changed' },
+        { id: 'transfer_hook', when: { fact: 'transferHook', equals: true }, weight: 15, severity: 'WARN', message: 'Transfer hook enabled' },
+        { id: 'dev_holds_majority', when: { fact: 'devHoldsPercent', gt: 50 }, weight: 40, severity: 'HIGH', message: 'Dev holds {devHoldsPercent:1}%' },
+        { id: 'dev_holds_large', when: { fact: 'devHoldsPercent', gt: 20, lte: 50 }, weight: 20, severity: 'MEDIUM', message: 'Dev holds {devHoldsPercent:1}%' },
+        { id: 'dev_holds_notable', when: { fact: 'devHoldsPercent', gt: 10, lte: 20 }, weight: 10, severity: 'MEDIUM', message: 'Dev holds {devHoldsPercent:1}%', flag: false },
+        { id: 'liquidity_unlocked', when: { fact: 'liquidityLocked', equals: false }, weight: 20, severity: 'MEDIUM', message: 'Liquidity not locked' },
+        { id: 'lp_mostly_unsecured', when: { fact: 'lpSecuredPercent', lt: 50 }, weight: 10, severity: 'HIGH', message: 'Only {lpSecuredPercent:1}% of LP locked or burned' },
+        { id: 'lp_lock_expiring', when: { fact: 'lpLockDaysLeft', lt: 30 }, weight: 10, severity: 'MEDIUM', message: 'LP lock expires in {lpLockDaysLeft} days' },
+        { id: 'low_liquidity', when: { fact: 'liquidityUsd', lt: 10000 }, weight: 10, severity: 'MEDIUM', message: 'Low liquidity (${liquidityUsd:0})' },
+        { id: 'unverified_contract', when: { fact: 'contractVerified', equals: false }, weight: 15, severity: 'MEDIUM', message: 'Contract not verified' },
+        { id: 'mintable', when: { fact: 'mintable', equals: true }, weight: 10, severity: 'WARN', message: 'Token is mintable' },
+        { id: 'transfer_pausable', when: { fact: 'transferPausable', equals: true }, weight: 0, severity: 'WARN', message: 'Transfers can be paused' },
+        { id: 'trading_cooldown', when: { fact: 'tradingCooldown', equals: true }, weight: 0, severity: 'WARN', message: 'Trading cooldown enabled' },
+        { id: 'metadata_mutable', when: { fact: 'metadataMutable', equals: true }, weight: 10, severity: 'WARN', message: 'Metadata can be changed' },
+        { id: 'closable', when: { fact: 'closable', equals: true }, weight: 10, severity: 'WARN', message: 'Token can be closed' }
+    ]
+};
+
+let activeRules: RiskRuleSet = DEFAULT_RISK_RULES;
+
+/**
+ * Check a rule set before it is used. Throws with every problem found.
+ */
+export function validateRiskRules(ruleSet: RiskRuleSet): void {
+    const errors: string[] = [];
+
+    if (!ruleSet || typeof ruleSet.version !== 'string' || !ruleSet.version) {
+        errors.push('version is required');
+    }
+
+    const thresholds = ruleSet?.thresholds;
+    if (!thresholds || ![thresholds.critical, thresholds.high, thresholds.medium].every(Number.isFinite)) {
+        errors.push('thresholds.critical, .high and .medium must be numbers');
+    } else if (!(thresholds.critical > thresholds.high && thresholds.high > thresholds.medium)) {
+        errors.push('thresholds must satisfy critical > high > medium');
+    }
+
+    if (!Array.isArray(ruleSet?.rules)) {
+        errors.push('rules must be an array');
+    } else {
+        const ids = new Set<string>();
+        for (const [index, rule] of ruleSet.rules.entries()) {
+            const label = rule?.id ? `rule ${rule.id}` : `rule ${index}`;
+            if (!rule?.id) errors.push(`${label}: id is required`);
+            else if (ids.has(rule.id)) errors.push(`${label}: duplicate id`);
+            ids.add(rule?.id);
+
+            if (!Number.isFinite(rule?.weight)) errors.push(`${label}: weight must be a number`);
+            if (!SEVERITIES.includes(rule?.severity)) errors.push(`${label}: severity must be one of ${SEVERITIES.join(', ')}`);
+            if (typeof rule?.message !== 'string' || !rule.message) errors.push(`${label}: message is required`);
+
+            const when = rule?.when;
+            if (!when || typeof when.fact !== 'string') {
+                errors.push(`${label}: when.fact is required`);
+            } else if ([when.equals, when.gt, when.gte, when.lt, when.lte].every(value => value === undefined)) {
+                errors.push(`${label}: when needs equals, gt, gte, lt or lte`);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid risk rule set: ${errors.join('; ')}`);
+    }
+}
+
+/**
+ * Activate a rule set (validated first).
+ */
+export function setRiskRules(ruleSet: RiskRuleSet): void {
+    validateRiskRules(ruleSet);
+    activeRules = ruleSet;
+    console.log(`[RiskRadar] Using risk rules ${ruleSet.version} (${ruleSet.rules.length} rules)`);
+}
+
+export function getRiskRules(): RiskRuleSet {
+    return activeRules;
+}
+
+/**
+ * Load and activate a rule set from a JSON file. On failure the current
+ * rules stay active and the error is rethrown.
+ */
+export async function loadRiskRules(path: string): Promise<RiskRuleSet> {
+    const ruleSet = JSON.parse(await readFile(path, 'utf8')) as RiskRuleSet;
+    setRiskRules(ruleSet);
+    return ruleSet;
+}
+
+function matches(condition: RuleCondition, facts: TokenFacts): boolean {
+    const value = facts[condition.fact];
+    if (value === undefined) return false;
+
+    if (condition.equals !== undefined && value !== condition.equals) return false;
+
+    const number = typeof value === 'number' ? value : NaN;
+    if (condition.gt !== undefined && !(number > condition.gt)) return false;
+    if (condition.gte !== undefined && !(number >= condition.gte)) return false;
+    if (condition.lt !== undefined && !(number < condition.lt)) return false;
+    if (condition.lte !== undefined && !(number <= condition.lte)) return false;
+    return true;
+}
+
+function renderMessage(message: string, facts: TokenFacts): string {
+    return message.replace(/\{(\w+)(?::(\d))?\}/g, (placeholder, fact: string, decimals?: string) => {
+        const value = facts[fact];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' && decimals !== undefined ? value.toFixed(Number(decimals)) : String(value);
+    });
+}
+
+/**
+ * Score a token's facts with a rule set (default: the active one).
+ */
+export function evaluateRiskRules(facts: TokenFacts, ruleSet: RiskRuleSet = activeRules): RiskEvaluation {
+    const contributions: RiskContribution[] = [];
+    const flags: string[] = [];
+    let critical = false;
+    let total = 0;
+
+    for (const rule of ruleSet.rules) {
+        if (!matches(rule.when, facts)) continue;
+
+        const message = renderMessage(rule.message, facts);
+        contributions.push({ rule: rule.id, weight: rule.weight, severity: rule.severity, message });
+        if (rule.flag !== false) flags.push(`[${rule.severity}] ${message}`);
+        if (rule.critical) critical = true;
+        total += rule.weight;
+    }
+
+    const riskScore = Math.max(0, Math.min(100, total));
+    const { thresholds } = ruleSet;
+    const riskLevel: RiskLevel = critical || riskScore >= thresholds.critical ? 'CRITICAL'
+        : riskScore >= thresholds.high ? 'HIGH'
+            : riskScore >= thresholds.medium ? 'MEDIUM'
+                : 'LOW';
+
+    return { riskScore, riskLevel, flags, contributions, ruleSet: ruleSet.version };
+}
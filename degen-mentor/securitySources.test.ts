@@ -0,0 +1,97 @@
+/**
+ * Security source consensus tests, replaying recorded API responses
+ * (fixtures/security-sources.json): sources agreeing, disagreeing and one
+ * source failing.
+ */
+
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import { join } from 'path';
+import {
+    fetchSecurityData,
+    GoPlusSource,
+    HoneypotIsSource,
+    JsonFetcher,
+    loadSourceRecordings,
+    recordedFetcher,
+    SecuritySource,
+    SourceChain
+} from './securitySources';
+
+const ETHEREUM: SourceChain = { key: 'eth', id: '1' };
+const BSC: SourceChain = { key: 'bsc', id: '56' };
+
+// Addresses recorded in the fixture file
+const DISPUTED = '0xfeed000000000000000000000000000000000001'; // BSC: GoPlus says no honeypot, Honeypot.is says honeypot
+const AGREED = '0xfeed000000000000000000000000000000000002'; // Ethereum: both sources agree
+const RATE_LIMITED = '0xfeed000000000000000000000000000000000003'; // Ethereum: GoPlus answers code 4029
+const HOLDERS_DIFFER = '0xfeed000000000000000000000000000000000004'; // Ethereum: agree on security, holder counts 15020 vs 9874
+
+let fetchJson: JsonFetcher;
+let sources: SecuritySource[];
+
+before(async () => {
+    fetchJson = recordedFetcher(await loadSourceRecordings(join(__dirname, 'fixtures', 'security-sources.json')));
+    sources = [new GoPlusSource({ fetchJson }), new HoneypotIsSource({ fetchJson })];
+});
+
+test('merges agreeing sources with full confidence', async () => {
+    const data = await fetchSecurityData(ETHEREUM, AGREED, sources);
+
+    assert.ok(data);
+    assert.deepEqual(data.sources, ['GoPlus', 'Honeypot.is']);
+    assert.deepEqual(data.failedSources, []);
+    assert.deepEqual(data.disagreements, []);
+    assert.equal(data.fields.honeypot, false);
+    assert.equal(data.fields.contractVerified, true);
+    assert.equal(data.fields.holderCount, 15020); // Within 10%: both count as agreeing
+    assert.deepEqual(data.fieldSources.honeypot, ['GoPlus', 'Honeypot.is']);
+    assert.equal(data.confidence, 1);
+});
+
+test('keeps holder counts that differ out of the confidence', async () => {
+    const data = await fetchSecurityData(ETHEREUM, HOLDERS_DIFFER, sources);
+
+    assert.ok(data);
+    assert.equal(data.fields.holderCount, 15020); // Equal weights: the first source, GoPlus
+    assert.deepEqual(data.fieldSources.holderCount, ['GoPlus']);
+    assert.deepEqual(data.disagreements, []);
+    assert.equal(data.confidence, 1);
+});
+
+test('resolves a tied disagreement to the riskier value', async () => {
+    const data = await fetchSecurityData(BSC, DISPUTED, sources);
+
+    assert.ok(data);
+    assert.equal(data.fields.honeypot, true);
+    assert.deepEqual(data.disagreements, ['honeypot']);
+    assert.deepEqual(data.fieldSources.honeypot, ['Honeypot.is']);
+    assert.equal(data.confidence, 0.5);
+
+    // Fields only GoPlus reports are taken as is
+    assert.equal(data.fields.mintable, true);
+    assert.deepEqual(data.fieldSources.mintable, ['GoPlus']);
+});
+
+test('counts a GoPlus error code as a failed source, not a missing token', async () => {
+    await assert.rejects(new GoPlusSource({ fetchJson }).fetch(ETHEREUM, RATE_LIMITED), /GoPlus error 4029/);
+
+    const data = await fetchSecurityData(ETHEREUM, RATE_LIMITED, sources);
+
+    assert.ok(data);
+    assert.deepEqual(data.sources, ['Honeypot.is']);
+    assert.deepEqual(data.failedSources, ['GoPlus']);
+    assert.equal(data.fields.name, 'Limited Coin');
+    assert.equal(data.confidence, 0.5); // Half of the queried weight answered
+});
+
+test('throws when every source failed', async () => {
+    await assert.rejects(
+        fetchSecurityData(ETHEREUM, RATE_LIMITED, [new GoPlusSource({ fetchJson })]),
+        /All security sources failed on eth/
+    );
+});
+
+test('returns null when no source has the token', async () => {
+    assert.equal(await fetchSecurityData(ETHEREUM, DISPUTED, sources), null);
+});
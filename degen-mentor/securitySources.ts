@@ -0,0 +1,561 @@
+/**
+ * Security Data Sources
+ *
+ * Risk Radar used to trust one provider (GoPlus): when it was down or
+ * wrong, so was every scan. Token security data now comes from pluggable
+ * sources whose answers are merged by consensus.
+ *
+ * Sources:
+ * - GoPlus: EVM and Solana token security (all fields)
+ * - Honeypot.is: buy/sell simulation on Ethereum, BSC and Base (honeypot,
+ *   verification, proxy)
+ * - Others (direct RPC checks, paid APIs) implement SecuritySource and are
+ *   added with registerSecuritySource
+ *
+ * Consensus:
+ * - Each field is taken from the sources that report it: booleans by
+ *   weighted vote (ties resolve to the riskier value), numbers and names
+ *   from the highest-weight source
+ * - Every field records which sources agree with the chosen value
+ * - confidence (0-1) is the agreement on the most disputed security field,
+ *   scaled by the share of queried sources that answered (one contested
+ *   honeypot verdict matters more than a dozen agreeing flags); name,
+ *   symbol and holder count are metadata and never count as disputes
+ * - A failing source is logged and skipped; the scan fails only when all do
+ *
+ * Adapters take a JsonFetcher, so recorded API responses
+ * (fixtures/security-sources.json) can replace the live APIs offline.
+ *
+ * Configuration (environment):
+ * - RISK_RADAR_SOURCES: comma-separated sources (default "goplus,honeypotis")
+ */
+
+import { readFile } from 'fs/promises';
+
+// Type definitions
+/**
+ * Normalised security data. Field names match the risk rule facts
+ * (riskRules.ts); sources leave out what they do not know.
+ */
+export interface SecurityFields {
+    name?: string;
+    symbol?: string;
+    holderCount?: number;
+
+    // EVM
+    honeypot?: boolean;
+    devHoldsPercent?: number;
+    liquidityLocked?: boolean;
+    contractVerified?: boolean;
+    proxy?: boolean;
+    ownershipReclaimable?: boolean;
+    hiddenOwner?: boolean;
+    selfDestruct?: boolean;
+    externalCall?: boolean;
+    mintable?: boolean;
+    transferPausable?: boolean;
+    tradingCooldown?: boolean;
+
+    // EVM liquidity (LP tokens across all reported LP holders)
+    lpLockedPercent?: number; // Share of LP supply in lockers
+    lpBurnedPercent?: number; // Share of LP supply sent to dead addresses
+    lpSecuredPercent?: number; // Locked + burned
+    lpLockExpiresAt?: string; // Earliest unlock of a locked position (ISO date)
+    lpLockDaysLeft?: number;
+    liquidityUsd?: number; // Across all DEX pools
+
+    // Solana
+    mintAuthority?: boolean;
+    freezeAuthority?: boolean;
+    metadataMutable?: boolean;
+    transferFeePercent?: number;
+    transferFeeUpgradable?: boolean;
+    transferHook?: boolean;
+    closable?: boolean;
+    nonTransferable?: boolean;
+    balanceMutable?: boolean;
+}
+
+export type SecurityField = keyof SecurityFields;
+
+export type FieldSources = Partial<Record<SecurityField, string[]>>;
+
+/**
+ * Chain a token is looked up on: an EVM chain (key and EIP-155 ID) or
+ * Solana ({ key: 'sol', id: 'solana' }).
+ */
+export interface SourceChain {
+    key: string;
+    id: string;
+}
+
+export interface SecuritySource {
+    name: string;
+    weight: number; // Vote weight in the consensus
+    supports(chain: SourceChain): boolean;
+    // Null when the source has no such token; throws when the source failed
+    fetch(chain: SourceChain, address: string): Promise<SecurityFields | null>;
+}
+
+export interface SourceReport {
+    source: string;
+    weight: number;
+    fields: SecurityFields;
+}
+
+export interface SecurityData {
+    fields: SecurityFields;
+    fieldSources: FieldSources; // Sources agreeing with each chosen value
+    disagreements: SecurityField[]; // Fields the sources did not agree on
+    sources: string[]; // Sources that returned data
+    failedSources: string[];
+    confidence: number; // 0-1
+}
+
+/**
+ * GET a URL and parse its JSON body; null for 404.
+ */
+export type JsonFetcher = (url: string) => Promise<unknown | null>;
+
+export interface SourceOptions {
+    weight?: number;
+    fetchJson?: JsonFetcher;
+}
+
+// GoPlus token security data for one address
+interface GoPlusToken {
+    token_name?: string;
+    token_symbol?: string;
+    holder_count?: string;
+    is_honeypot?: string;
+    creator_percent?: string;
+    lp_holders?: Array<{
+        address?: string;
+        percent?: string; // Share of LP supply, 0-1
+        is_locked?: number;
+        locked_detail?: Array<{ amount?: string; end_time?: string }>;
+    }>;
+    dex?: Array<{ name?: string; liquidity?: string }>; // liquidity in USD
+    is_open_source?: string;
+    is_proxy?: string;
+    can_take_back_ownership?: string;
+    hidden_owner?: string;
+    selfdestruct?: string;
+    external_call?: string;
+    is_mintable?: string;
+    transfer_pausable?: string;
+    trading_cooldown?: string;
+}
+
+// GoPlus Solana flag with the accounts holding the authority
+interface GoPlusAuthority {
+    status?: string;
+    authority?: Array<{ address: string }>;
+}
+
+// GoPlus Solana token security data (/api/v1/solana/token_security)
+interface GoPlusSolanaToken {
+    metadata?: { name?: string; symbol?: string };
+    holder_count?: string;
+    mintable?: GoPlusAuthority;
+    freezable?: GoPlusAuthority;
+    closable?: GoPlusAuthority;
+    metadata_mutable?: GoPlusAuthority;
+    balance_mutable_authority?: GoPlusAuthority;
+    transfer_fee?: { current_fee_rate?: { fee_rate?: string } }; // fee_rate in basis points
+    transfer_fee_upgradable?: GoPlusAuthority;
+    transfer_hook?: unknown[];
+    non_transferable?: string;
+    creators?: Array<{ address: string }>;
+    holders?: Array<{ account: string; percent?: string }>;
+}
+
+// GoPlus API response type (EVM and Solana endpoints); code 1 is success
+interface GoPlusResponse<T> {
+    code?: number;
+    message?: string;
+    result?: {
+        [address: string]: T;
+    };
+}
+
+// Honeypot.is /v2/IsHoneypot response (fields used)
+interface HoneypotIsResponse {
+    token?: { name?: string; symbol?: string; totalHolders?: number };
+    simulationSuccess?: boolean;
+    honeypotResult?: { isHoneypot?: boolean };
+    contractCode?: { openSource?: boolean; isProxy?: boolean };
+}
+
+// A source that has not answered by then counts as failed
+const SOURCE_TIMEOUT_MS = 10000;
+
+/**
+ * Default fetcher: live HTTP via fetch.
+ */
+export const fetchJson: JsonFetcher = async (url: string) => {
+    const response = await fetch(url, { signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS) });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+    }
+    return response.json();
+};
+
+/**
+ * GoPlus Security API (free tier), EVM and Solana.
+ */
+export class GoPlusSource implements SecuritySource {
+    readonly name = 'GoPlus';
+    readonly weight: number;
+    private readonly fetchJson: JsonFetcher;
+
+    constructor(options: SourceOptions = {}) {
+        this.weight = options.weight ?? 1;
+        this.fetchJson = options.fetchJson || fetchJson;
+    }
+
+    supports(_chain: SourceChain): boolean {
+        return true;
+    }
+
+    async fetch(chain: SourceChain, address: string): Promise<SecurityFields | null> {
+        if (chain.key === 'sol') {
+            const url = `https://api.gopluslabs.io/api/v1/solana/token_security?contract_addresses=${address}`;
+            const token = await this.request<GoPlusSolanaToken>(url, address);
+            return token ? parseGoPlusSolanaToken(token) : null;
+        }
+
+        const url = `https://api.gopluslabs.io/api/v1/token_security/${chain.id}?contract_addresses=${address}`;
+        const token = await this.request<GoPlusToken>(url, address);
+        return token ? parseGoPlusToken(token) : null;
+    }
+
+    /**
+     * GoPlus answers HTTP 200 for errors too (rate limits, bad chain ID),
+     * with a non-1 code and no result: that is a failure, not "not found".
+     */
+    private async request<T>(url: string, address: string): Promise<T | null> {
+        const data = await this.fetchJson(url) as GoPlusResponse<T> | null;
+        if (!data) return null;
+        if (data.code !== 1) {
+            throw new Error(`GoPlus error ${data.code}: ${data.message || 'no message'}`);
+        }
+        return data.result?.[address] || null;
+    }
+}
+
+function parseGoPlusToken(token: GoPlusToken): SecurityFields {
+    return {
+        name: token.token_name || undefined,
+        symbol: token.token_symbol || undefined,
+        holderCount: parseInt(token.holder_count || '0'),
+        honeypot: token.is_honeypot === '1',
+        devHoldsPercent: parseFloat(token.creator_percent || '0') * 100,
+        ...parseGoPlusLiquidity(token),
+        contractVerified: token.is_open_source === '1',
+        proxy: token.is_proxy === '1',
+        ownershipReclaimable: token.can_take_back_ownership === '1',
+        hiddenOwner: token.hidden_owner === '1',
+        selfDestruct: token.selfdestruct === '1',
+        externalCall: token.external_call === '1',
+        mintable: token.is_mintable === '1',
+        transferPausable: token.transfer_pausable === '1',
+        tradingCooldown: token.trading_cooldown === '1'
+    };
+}
+
+// Dead addresses LP tokens are burned to
+const BURN_ADDRESSES = new Set([
+    '0x000000000000000000000000000000000000dead',
+    '0x0000000000000000000000000000000000000000'
+]);
+
+// LP share that must be locked or burned for liquidity to count as locked
+const LP_SECURED_THRESHOLD_PERCENT = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * LP lock, burn and depth across every LP holder GoPlus lists. GoPlus
+ * only returns the top LP holders, so the percentages are lower bounds.
+ */
+function parseGoPlusLiquidity(token: GoPlusToken, now: number = Date.now()): SecurityFields {
+    const pools = (token.dex || []).map(pool => parseFloat(pool.liquidity || '')).filter(Number.isFinite);
+    const liquidityUsd = pools.length > 0 ? pools.reduce((sum, value) => sum + value, 0) : undefined;
+
+    const holders = token.lp_holders || [];
+    if (holders.length === 0) {
+        return { liquidityLocked: false, liquidityUsd };
+    }
+
+    let locked = 0;
+    let burned = 0;
+    let earliestUnlock: number | undefined;
+    for (const holder of holders) {
+        const percent = (parseFloat(holder.percent || '0') || 0) * 100;
+
+        // Burn addresses are often also reported as locked; burned is the stronger claim
+        if (BURN_ADDRESSES.has((holder.address || '').toLowerCase())) {
+            burned += percent;
+            continue;
+        }
+        if (holder.is_locked !== 1) continue;
+
+        locked += percent;
+        for (const detail of holder.locked_detail || []) {
+            const unlock = Date.parse(detail.end_time || '');
+            if (!Number.isNaN(unlock) && (earliestUnlock === undefined || unlock < earliestUnlock)) {
+                earliestUnlock = unlock;
+            }
+        }
+    }
+
+    const lpLockedPercent = Math.min(100, locked);
+    const lpBurnedPercent = Math.min(100, burned);
+    const lpSecuredPercent = Math.min(100, locked + burned);
+
+    return {
+        liquidityLocked: lpSecuredPercent >= LP_SECURED_THRESHOLD_PERCENT,
+        lpLockedPercent,
+        lpBurnedPercent,
+        lpSecuredPercent,
+        lpLockExpiresAt: earliestUnlock !== undefined ? new Date(earliestUnlock).toISOString() : undefined,
+        lpLockDaysLeft: earliestUnlock !== undefined ? Math.max(0, Math.floor((earliestUnlock - now) / DAY_MS)) : undefined,
+        liquidityUsd
+    };
+}
+
+function parseGoPlusSolanaToken(token: GoPlusSolanaToken): SecurityFields {
+    const active = (flag?: GoPlusAuthority) => flag?.status === '1';
+    const transferFeeBps = parseFloat(token.transfer_fee?.current_fee_rate?.fee_rate || '0');
+
+    // Creator wallets' share of supply
+    const creators = new Set((token.creators || []).map(creator => creator.address));
+    const devHoldsPercent = (token.holders || [])
+        .filter(holder => creators.has(holder.account))
+        .reduce((sum, holder) => sum + parseFloat(holder.percent || '0') * 100, 0);
+
+    return {
+        name: token.metadata?.name || undefined,
+        symbol: token.metadata?.symbol || undefined,
+        holderCount: parseInt(token.holder_count || '0'),
+        devHoldsPercent,
+        mintAuthority: active(token.mintable),
+        freezeAuthority: active(token.freezable),
+        metadataMutable: active(token.metadata_mutable),
+        transferFeePercent: Number.isFinite(transferFeeBps) ? transferFeeBps / 100 : 0,
+        transferFeeUpgradable: active(token.transfer_fee_upgradable),
+        transferHook: (token.transfer_hook?.length || 0) > 0,
+        closable: active(token.closable),
+        nonTransferable: token.non_transferable === '1',
+        balanceMutable: active(token.balance_mutable_authority)
+    };
+}
+
+// EIP-155 chain IDs Honeypot.is simulates on
+const HONEYPOT_IS_CHAINS = new Set(['1', '56', '8453']);
+
+/**
+ * Honeypot.is: simulates a buy and sell, so its honeypot verdict does not
+ * depend on pattern-matching the contract.
+ */
+export class HoneypotIsSource implements SecuritySource {
+    readonly name = 'Honeypot.is';
+    readonly weight: number;
+    private readonly fetchJson: JsonFetcher;
+
+    constructor(options: SourceOptions = {}) {
+        this.weight = options.weight ?? 1;
+        this.fetchJson = options.fetchJson || fetchJson;
+    }
+
+    supports(chain: SourceChain): boolean {
+        return HONEYPOT_IS_CHAINS.has(chain.id);
+    }
+
+    async fetch(chain: SourceChain, address: string): Promise<SecurityFields | null> {
+        const url = `https://api.honeypot.is/v2/IsHoneypot?address=${address}&chainID=${chain.id}`;
+        const data = await this.fetchJson(url) as HoneypotIsResponse | null;
+        if (!data?.token) return null;
+
+        return {
+            name: data.token.name || undefined,
+            symbol: data.token.symbol || undefined,
+            holderCount: data.token.totalHolders,
+            // A failed simulation (no pair yet, reverted trade) is not a verdict
+            honeypot: data.simulationSuccess ? !!data.honeypotResult?.isHoneypot : undefined,
+            contractVerified: data.contractCode?.openSource,
+            proxy: data.contractCode?.isProxy
+        };
+    }
+}
+
+const SOURCE_FACTORIES: Record<string, () => SecuritySource> = {
+    goplus: () => new GoPlusSource(),
+    honeypotis: () => new HoneypotIsSource()
+};
+
+function configuredSources(): SecuritySource[] {
+    const names = (process.env.RISK_RADAR_SOURCES || 'goplus,honeypotis')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+
+    const sources = names.flatMap(name => {
+        const factory = SOURCE_FACTORIES[name];
+        if (!factory) console.warn(`[RiskRadar] Unknown security source "${name}" ignored`);
+        return factory ? [factory()] : [];
+    });
+
+    return sources.length > 0 ? sources : [new GoPlusSource()];
+}
+
+let securitySources: SecuritySource[] = configuredSources();
+
+export function setSecuritySources(sources: SecuritySource[]): void {
+    securitySources = [...sources];
+}
+
+export function getSecuritySources(): SecuritySource[] {
+    return securitySources;
+}
+
+/**
+ * Add a source, replacing any active source with the same name.
+ */
+export function registerSecuritySource(source: SecuritySource): void {
+    securitySources = [...securitySources.filter(existing => existing.name !== source.name), source];
+}
+
+/**
+ * Fetcher that answers from recorded responses (URL → body, null = 404)
+ * and fails for anything not recorded.
+ */
+export function recordedFetcher(recordings: Record<string, unknown>): JsonFetcher {
+    return async (url: string) => {
+        if (!(url in recordings)) {
+            throw new Error(`No recorded response for ${url}`);
+        }
+        return recordings[url];
+    };
+}
+
+/**
+ * Load recorded responses from a JSON file for recordedFetcher.
+ */
+export async function loadSourceRecordings(path: string): Promise<Record<string, unknown>> {
+    return JSON.parse(await readFile(path, 'utf8')) as Record<string, unknown>;
+}
+
+// Boolean fields where false is the risky answer
+const RISKY_WHEN_FALSE = new Set<SecurityField>(['liquidityLocked', 'contractVerified']);
+
+// Descriptive fields: sources count holders differently, so these are taken
+// from the highest-weight source without counting towards agreement
+const METADATA_FIELDS = new Set<SecurityField>(['name', 'symbol', 'holderCount']);
+
+// Numbers within this distance of the chosen value count as agreeing
+function closeEnough(value: number, chosen: number): boolean {
+    return Math.abs(value - chosen) <= Math.max(1, Math.abs(chosen) * 0.1);
+}
+
+/**
+ * Merge source reports field by field. `queried` is every source asked
+ * (including those that failed or had no data), for the confidence score.
+ */
+export function mergeSecurityReports(reports: SourceReport[], queried: Array<{ name: string; weight: number }>): SecurityData {
+    const fields: Record<string, string | number | boolean> = {};
+    const fieldSources: FieldSources = {};
+    const disagreements: SecurityField[] = [];
+    const agreement: number[] = [];
+
+    // Highest weight first; equal weights keep source order
+    const ranked = [...reports].sort((a, b) => b.weight - a.weight);
+    const keys = new Set(ranked.flatMap(report => Object.keys(report.fields) as SecurityField[]));
+
+    for (const key of keys) {
+        const reported = ranked.filter(report => report.fields[key] !== undefined);
+        if (reported.length === 0) continue;
+
+        let chosen = reported[0].fields[key]!;
+        if (typeof chosen === 'boolean') {
+            const weightFor = (value: boolean) => reported
+                .filter(report => report.fields[key] === value)
+                .reduce((sum, report) => sum + report.weight, 0);
+            const yes = weightFor(true);
+            const no = weightFor(false);
+            chosen = yes === no ? !RISKY_WHEN_FALSE.has(key) : yes > no;
+        }
+
+        const agreeing = reported.filter(report => {
+            const value = report.fields[key]!;
+            return typeof value === 'number' && typeof chosen === 'number' ? closeEnough(value, chosen) : value === chosen;
+        });
+
+        const reportedWeight = reported.reduce((sum, report) => sum + report.weight, 0);
+        const agreeingWeight = agreeing.reduce((sum, report) => sum + report.weight, 0);
+
+        fields[key] = chosen;
+        fieldSources[key] = agreeing.map(report => report.source);
+        if (METADATA_FIELDS.has(key)) continue;
+
+        if (agreeing.length < reported.length) disagreements.push(key);
+        agreement.push(reportedWeight > 0 ? agreeingWeight / reportedWeight : 1);
+    }
+
+    const answered = new Set(reports.map(report => report.source));
+    const queriedWeight = queried.reduce((sum, source) => sum + source.weight, 0);
+    const answeredWeight = queried
+        .filter(source => answered.has(source.name))
+        .reduce((sum, source) => sum + source.weight, 0);
+    const coverage = queriedWeight > 0 ? answeredWeight / queriedWeight : 0;
+    const weakestAgreement = Math.min(1, ...agreement);
+
+    return {
+        fields: fields as SecurityFields,
+        fieldSources,
+        disagreements,
+        sources: reports.map(report => report.source),
+        failedSources: [],
+        confidence: Math.round(weakestAgreement * coverage * 100) / 100
+    };
+}
+
+/**
+ * Ask every source that supports `chain` about a token and merge the
+ * answers. Null when no source has the token; throws when all failed.
+ */
+export async function fetchSecurityData(
+    chain: SourceChain,
+    address: string,
+    sources: SecuritySource[] = securitySources
+): Promise<SecurityData | null> {
+    const eligible = sources.filter(source => source.supports(chain));
+    if (eligible.length === 0) {
+        throw new Error(`No security source supports chain ${chain.key}`);
+    }
+
+    const results = await Promise.allSettled(eligible.map(source => source.fetch(chain, address)));
+
+    const reports: SourceReport[] = [];
+    const failedSources: string[] = [];
+    results.forEach((result, index) => {
+        const source = eligible[index];
+        if (result.status === 'rejected') {
+            console.error(`[RiskRadar] ${source.name} failed on ${chain.key}:`, result.reason?.message || result.reason);
+            failedSources.push(source.name);
+        } else if (result.value) {
+            reports.push({ source: source.name, weight: source.weight, fields: result.value });
+        }
+    });
+
+    if (reports.length === 0) {
+        if (failedSources.length === eligible.length) {
+            throw new Error(`All security sources failed on ${chain.key}: ${failedSources.join(', ')}`);
+        }
+        return null;
+    }
+
+    return { ...mergeSecurityReports(reports, eligible), failedSources };
+}
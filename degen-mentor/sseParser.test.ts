@@ -0,0 +1,102 @@
+/**
+ * SSE parser tests: frames split at every byte offset, including inside
+ * multi-byte UTF-8 characters and CRLF pairs.
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ProviderError } from './providers';
+import { CompletionChunk, parseCompletionStream, SSEParser } from './sseParser';
+
+// Keepalive comment, CRLF / LF / bare CR endings, 2-, 3- and 4-byte UTF-8 and an event: field
+const STREAM = [
+    ': OPENROUTER PROCESSING\r\n\r\n',
+    'data: {"choices":[{"delta":{"content":"héllo 🚀"}}]}\r\n\r\n',
+    'data: {"choices":[{"delta":{"content":" wörld €"}}]}\n\n',
+    'event: message\r\ndata: {"choices":[{"delta":{"content":"!"},"finish_reason":"stop"}]}\r\r',
+    'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":5}}\r\n\r\n',
+    'data: [DONE]\r\n\r\n'
+].join('');
+
+const EXPECTED_TEXT = 'héllo 🚀 wörld €!';
+
+const encoder = new TextEncoder();
+
+function streamOf(parts: Uint8Array[]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+        }
+    });
+}
+
+async function collect(parts: Uint8Array[]): Promise<CompletionChunk[]> {
+    const chunks: CompletionChunk[] = [];
+    for await (const chunk of parseCompletionStream(streamOf(parts))) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+function summarise(chunks: CompletionChunk[]) {
+    return {
+        text: chunks.map(chunk => chunk.delta || '').join(''),
+        finishReason: chunks.find(chunk => chunk.finishReason)?.finishReason,
+        usage: chunks.find(chunk => chunk.usage)?.usage,
+        chunks: chunks.length
+    };
+}
+
+test('parses a stream delivered in one read', async () => {
+    const result = summarise(await collect([encoder.encode(STREAM)]));
+
+    assert.deepEqual(result, {
+        text: EXPECTED_TEXT,
+        finishReason: 'stop',
+        usage: { promptTokens: 12, completionTokens: 5 },
+        chunks: 4
+    });
+});
+
+test('gives the same result when split at every byte offset', async () => {
+    const bytes = encoder.encode(STREAM);
+    const expected = summarise(await collect([bytes]));
+
+    for (let offset = 0; offset <= bytes.length; offset++) {
+        const result = summarise(await collect([bytes.slice(0, offset), bytes.slice(offset)]));
+        assert.deepEqual(result, expected, `split at byte ${offset}`);
+    }
+});
+
+test('gives the same result when delivered one byte per read', async () => {
+    const bytes = encoder.encode(STREAM);
+    const parts = Array.from(bytes, byte => Uint8Array.of(byte));
+
+    assert.equal(summarise(await collect(parts)).text, EXPECTED_TEXT);
+});
+
+test('does not dispatch an extra event for a CRLF split across reads', () => {
+    const parser = new SSEParser();
+    const events = [
+        ...parser.feed('data: one\r'),
+        ...parser.feed('\n\r'),
+        ...parser.feed('\ndata: two\r\n\r\n'),
+        ...parser.flush()
+    ];
+
+    assert.deepEqual(events.map(event => event.data), ['one', 'two']);
+});
+
+test('skips data that is valid JSON but not an object', async () => {
+    const chunks = await collect([encoder.encode('data: null\n\ndata: 42\n\ndata: {"choices":[{"delta":{"content":"ok"}}]}\n\n')]);
+
+    assert.equal(summarise(chunks).text, 'ok');
+});
+
+test('throws ProviderError for an error payload sent mid-stream', async () => {
+    const stream = 'data: {"choices":[{"delta":{"content":"par"}}]}\n\ndata: {"error":{"code":502,"message":"upstream died"}}\n\n';
+
+    await assert.rejects(collect([encoder.encode(stream)]), (error: unknown) =>
+        error instanceof ProviderError && error.status === 502);
+});
@@ -0,0 +1,260 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Incremental SSE parser for streamed chat completions. Network reads do not
+ * line up with SSE frames, so every byte is buffered until its line (and its
+ * event) is complete.
+ *
+ * Handles:
+ * - Frames split at any byte offset (including inside multi-byte UTF-8)
+ * - LF, CRLF and bare CR line endings (CRLF split across reads too)
+ * - Multi-line `data:` fields (joined with newlines)
+ * - Comment/keepalive lines (`: OPENROUTER PROCESSING`)
+ * - `event:` types and `id:` fields
+ * - OpenRouter error payloads sent mid-stream
+ */
+
+import { ProviderError, ToolCall } from './providers';
+
+// Type definitions
+export interface SSEEvent {
+    event: string; // 'message' unless an event: field was sent
+    data: string;
+    id?: string;
+}
+
+export interface ToolCallDelta {
+    index: number;
+    id?: string;
+    name?: string;
+    arguments?: string; // Fragment to append
+}
+
+export interface CompletionChunk {
+    delta?: string;
+    toolCalls?: ToolCallDelta[];
+    finishReason?: string;
+    usage?: {
+        promptTokens: number;
+        completionTokens: number;
+    };
+}
+
+/**
+ * Stateful line/event parser. Feed it decoded text as it arrives.
+ */
+export class SSEParser {
+    private buffer = '';
+    private dataLines: string[] = [];
+    private eventType = '';
+    private lastEventId: string | undefined;
+
+    /**
+     * Consume a chunk of text, returning every event it completed.
+     */
+    feed(text: string): SSEEvent[] {
+        this.buffer += text;
+        return this.drain(false);
+    }
+
+    /**
+     * End of stream: process the trailing line and dispatch any event
+     * that was not terminated by a blank line (lenient to servers that
+     * close without one).
+     */
+    flush(): SSEEvent[] {
+        const events = this.drain(true);
+        if (this.buffer) {
+            this.processLine(this.buffer, events);
+            this.buffer = '';
+        }
+        this.dispatch(events);
+        return events;
+    }
+
+    private drain(final: boolean): SSEEvent[] {
+        const events: SSEEvent[] = [];
+
+        while (true) {
+            const lf = this.buffer.indexOf('\n');
+            const cr = this.buffer.indexOf('\r');
+            if (lf === -1 && cr === -1) break;
+
+            let end: number;
+            let terminatorLength = 1;
+
+            if (cr !== -1 && (lf === -1 || cr < lf)) {
+                // A trailing CR might be the first half of a CRLF split across reads
+                if (cr === this.buffer.length - 1 && !final) break;
+                end = cr;
+                if (this.buffer[cr + 1] === '\n') terminatorLength = 2;
+            } else {
+                end = lf;
+            }
+
+            const line = this.buffer.slice(0, end);
+            this.buffer = this.buffer.slice(end + terminatorLength);
+            this.processLine(line, events);
+        }
+
+        return events;
+    }
+
+    private processLine(line: string, events: SSEEvent[]): void {
+        // Blank line dispatches the pending event
+        if (line === '') {
+            this.dispatch(events);
+            return;
+        }
+
+        // Comment / keepalive
+        if (line.startsWith(':')) return;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'data':
+                this.dataLines.push(value);
+                break;
+            case 'event':
+                this.eventType = value;
+                break;
+            case 'id':
+                this.lastEventId = value;
+                break;
+            default:
+                // 'retry' and unknown fields are ignored
+                break;
+        }
+    }
+
+    private dispatch(events: SSEEvent[]): void {
+        if (this.dataLines.length > 0) {
+            events.push({
+                event: this.eventType || 'message',
+                data: this.dataLines.join('\n'),
+                id: this.lastEventId
+            });
+        }
+        this.dataLines = [];
+        this.eventType = '';
+    }
+}
+
+/**
+ * Iterate SSE events from a byte stream.
+ */
+export async function* parseSSEStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+                yield event;
+            }
+        }
+
+        for (const event of parser.feed(decoder.decode())) {
+            yield event;
+        }
+        for (const event of parser.flush()) {
+            yield event;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Iterate chat completion chunks from an OpenAI-compatible SSE stream.
+ * Stops at `[DONE]`; throws ProviderError for error events or error
+ * payloads the upstream sends after the stream has started.
+ */
+export async function* parseCompletionStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<CompletionChunk> {
+    for await (const event of parseSSEStream(stream)) {
+        if (event.data === '[DONE]') return;
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(event.data);
+        } catch {
+            parsed = undefined;
+        }
+
+        // Valid JSON that is not an object (`data: null`, numbers) is as unusable as invalid JSON
+        if (!parsed || typeof parsed !== 'object') {
+            if (event.event === 'error') {
+                throw new ProviderError(`Stream error: ${event.data}`);
+            }
+            console.warn('[SSE] Skipping malformed event:', event.data.slice(0, 100));
+            continue;
+        }
+
+        if (parsed.error || event.event === 'error') {
+            const error = parsed.error || parsed;
+            const status = typeof error.code === 'number' ? error.code : undefined;
+            throw new ProviderError(`Stream error: ${error.message || 'unknown'}`, status);
+        }
+
+        const choice = parsed.choices?.[0];
+        const chunk: CompletionChunk = {};
+
+        if (choice?.delta?.content) chunk.delta = choice.delta.content;
+        if (choice?.delta?.tool_calls?.length) {
+            chunk.toolCalls = choice.delta.tool_calls.map((call: any, position: number) => ({
+                index: call.index ?? position,
+                id: call.id,
+                name: call.function?.name,
+                arguments: call.function?.arguments
+            }));
+        }
+        if (choice?.finish_reason) chunk.finishReason = choice.finish_reason;
+
+        // Final chunk carries usage when stream_options.include_usage is set
+        if (parsed.usage) {
+            chunk.usage = {
+                promptTokens: parsed.usage.prompt_tokens || 0,
+                completionTokens: parsed.usage.completion_tokens || 0
+            };
+        }
+
+        yield chunk;
+    }
+}
+
+/**
+ * Reassembles streamed tool calls. Providers send the id and name once and
+ * the JSON arguments in fragments, keyed by the call's index.
+ */
+export class ToolCallAccumulator {
+    private calls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    add(deltas: ToolCallDelta[]): void {
+        for (const delta of deltas) {
+            const call = this.calls.get(delta.index) || { id: '', name: '', arguments: '' };
+            if (delta.id) call.id = delta.id;
+            if (delta.name) call.name += delta.name;
+            if (delta.arguments) call.arguments += delta.arguments;
+            this.calls.set(delta.index, call);
+        }
+    }
+
+    finish(): ToolCall[] {
+        return [...this.calls.entries()]
+            .sort(([a], [b]) => a - b)
+            .filter(([, call]) => call.name)
+            .map(([index, call]) => ({
+                id: call.id || `call_${index}`,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments || '{}' }
+            }));
+    }
+}
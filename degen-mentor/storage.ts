@@ -0,0 +1,100 @@
+/**
+ * Storage Primitives
+ *
+ * Minimal SQL client contract shared by the Postgres-backed stores
+ * (usage ledger, conversation memory, language preferences, prompts).
+ *
+ * - node-postgres (`pg.Pool` / `pg.Client`) satisfies SqlClient as is
+ * - The bot's Prisma client (or the failover `db` client from
+ *   unified-database.ts) is wrapped with prismaSqlClient
+ * - Tables are created by the SQL files in migrations/, applied in order
+ *   with runMigrations
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+
+// Type definitions
+export interface SqlClient {
+    query<T = unknown>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+/**
+ * The raw-query method of a Prisma client that SqlClient is built on.
+ */
+export interface PrismaRawClient {
+    $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T>;
+}
+
+// Applied migrations are recorded here
+const MIGRATIONS_TABLE = 'ai_schema_migrations';
+
+/**
+ * Prisma returns BIGINT as bigint and NUMERIC as Decimal objects, while
+ * node-postgres returns both as strings (which the stores parse). Convert
+ * so rows look the same from either client.
+ */
+function normaliseValue(value: unknown): unknown {
+    if (typeof value === 'bigint') return value.toString();
+    if (value && typeof value === 'object' && value.constructor?.name === 'Decimal') return String(value);
+    return value;
+}
+
+/**
+ * SqlClient over a Prisma client. Queries keep their $1, $2 placeholders,
+ * which Prisma passes to Postgres as bound parameters. Prisma binds JS
+ * strings as text (node-postgres leaves them untyped), so queries cast
+ * parameters for non-text columns explicitly (`$2::date`) to run on both.
+ */
+export function prismaSqlClient(prisma: PrismaRawClient): SqlClient {
+    return {
+        async query<T = unknown>(sql: string, params: unknown[] = []): Promise<{ rows: T[] }> {
+            const rows = await prisma.$queryRawUnsafe<Record<string, unknown>[]>(sql, ...params);
+            return {
+                rows: rows.map(row => Object.fromEntries(
+                    Object.entries(row).map(([column, value]) => [column, normaliseValue(value)])
+                ) as T)
+            };
+        }
+    };
+}
+
+/**
+ * Split a migration file into statements (one per `;` at the end of a line).
+ * Prepared statements run one at a time.
+ */
+function splitStatements(sql: string): string[] {
+    return sql
+        .split(/;\s*$/m)
+        .map(statement => statement.replace(/^\s*--.*$/gm, '').trim())
+        .filter(Boolean);
+}
+
+/**
+ * Apply the .sql files in `directory` that have not been applied yet, in
+ * file name order. Returns the names of the files applied.
+ */
+export async function runMigrations(sql: SqlClient, directory: string = join(__dirname, 'migrations')): Promise<string[]> {
+    await sql.query(
+        `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+             name       TEXT PRIMARY KEY,
+             applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+         )`
+    );
+
+    const { rows } = await sql.query<{ name: string }>(`SELECT name FROM ${MIGRATIONS_TABLE}`);
+    const applied = new Set(rows.map(row => row.name));
+    const pending = (await readdir(directory))
+        .filter(file => file.endsWith('.sql') && !applied.has(file))
+        .sort();
+
+    for (const file of pending) {
+        for (const statement of splitStatements(await readFile(join(directory, file), 'utf8'))) {
+            await sql.query(statement);
+        }
+        await sql.query(`INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES ($1)`, [file]);
+        console.log(`[Storage] Applied migration ${file}`);
+    }
+
+    return pending;
+}
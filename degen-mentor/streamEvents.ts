@@ -0,0 +1,142 @@
+/**
+ * Streaming Progress Events
+ *
+ * Richer view of a streamed answer than the accumulated text passed to
+ * onChunk, so the Telegram layer can show typing/"analyzing…" states,
+ * token counts and know when the final chunk has arrived.
+ *
+ * Events (all carry elapsedMs since the request started and tokens, the
+ * completion tokens so far - estimated until the provider reports usage):
+ * - started: request accepted, model call about to begin (or cache hit)
+ * - delta: every piece of text as it arrives
+ * - flush: throttled update worth showing to the user (same moments as onChunk)
+ * - tool-call: the model asked for tools (scan, chart read) before answering
+ * - completed: final answer delivered
+ * - error: request failed or was refused, with its error code
+ *
+ * Flush policy:
+ * - intervalMs: minimum gap between flushes (Telegram allows roughly one
+ *   message edit per second)
+ * - minChars: no flush before this much text (avoids one-word messages)
+ * The final flush is always sent.
+ */
+
+import { StreamPage } from './telegramFormat';
+import { estimateTokens, UsageSummary } from './usage';
+
+// Type definitions
+export interface FlushPolicy {
+    intervalMs: number;
+    minChars: number;
+}
+
+interface EventBase {
+    elapsedMs: number;
+    tokens: number;
+}
+
+export type StreamEvent =
+    | EventBase & { type: 'started'; promptVersion: string; cached: boolean }
+    | EventBase & { type: 'delta'; delta: string; text: string }
+    | EventBase & { type: 'flush'; text: string; page: StreamPage; final: boolean }
+    | EventBase & { type: 'tool-call'; tools: string[] }
+    | EventBase & {
+        type: 'completed';
+        text: string;
+        status: 'complete' | 'truncated' | 'cancelled';
+        model?: string;
+        usage?: UsageSummary;
+        cached: boolean;
+    }
+    | EventBase & { type: 'error'; error: string; message: string };
+
+export type StreamEventListener = (event: StreamEvent) => void | Promise<void>;
+
+/**
+ * Final state of a streamed request (AIResponse satisfies this).
+ */
+export interface StreamOutcome {
+    success: boolean;
+    content: string;
+    error?: string;
+    status?: 'complete' | 'truncated' | 'cancelled';
+    model?: string;
+    usage?: UsageSummary;
+    cached?: boolean;
+}
+
+export const DEFAULT_FLUSH_POLICY: FlushPolicy = {
+    intervalMs: 1500, // Telegram rate limit
+    minChars: 50
+};
+
+// Events without the fields StreamProgress fills in
+type EventPayload<T> = T extends StreamEvent ? Omit<T, 'elapsedMs' | 'tokens'> : never;
+
+/**
+ * Tracks one streamed request and emits its events. Listener errors are
+ * logged and never interrupt the answer.
+ */
+export class StreamProgress {
+    private readonly startedAt = Date.now();
+    private readonly policy: FlushPolicy;
+    private lastFlushAt = 0;
+    private tokens = 0;
+
+    constructor(private readonly listener?: StreamEventListener, policy: Partial<FlushPolicy> = {}) {
+        this.policy = { ...DEFAULT_FLUSH_POLICY, ...policy };
+    }
+
+    /** Whether enough time and text have passed for another flush. */
+    shouldFlush(textLength: number, now: number = Date.now()): boolean {
+        return now - this.lastFlushAt > this.policy.intervalMs && textLength > this.policy.minChars;
+    }
+
+    async started(promptVersion: string, cached: boolean = false): Promise<void> {
+        await this.emit({ type: 'started', promptVersion, cached });
+    }
+
+    async delta(delta: string, text: string): Promise<void> {
+        this.tokens = estimateTokens(text);
+        await this.emit({ type: 'delta', delta, text });
+    }
+
+    async flushed(text: string, page: StreamPage, final: boolean = false): Promise<void> {
+        this.lastFlushAt = Date.now();
+        await this.emit({ type: 'flush', text, page, final });
+    }
+
+    async toolCall(tools: string[]): Promise<void> {
+        await this.emit({ type: 'tool-call', tools });
+    }
+
+    /**
+     * Emit `completed` or `error` for the request's outcome and return it.
+     */
+    async finish<T extends StreamOutcome>(outcome: T): Promise<T> {
+        if (outcome.success) {
+            this.tokens = outcome.usage?.completionTokens ?? estimateTokens(outcome.content);
+            await this.emit({
+                type: 'completed',
+                text: outcome.content,
+                status: outcome.status || 'complete',
+                model: outcome.model,
+                usage: outcome.usage,
+                cached: !!outcome.cached
+            });
+        } else {
+            await this.emit({ type: 'error', error: outcome.error || 'unknown', message: outcome.content });
+        }
+        return outcome;
+    }
+
+    private async emit(event: EventPayload<StreamEvent>): Promise<void> {
+        if (!this.listener) return;
+
+        try {
+            await this.listener({ ...event, elapsedMs: Date.now() - this.startedAt, tokens: this.tokens } as StreamEvent);
+        } catch (error: any) {
+            console.error(`[AI Stream] ${event.type} listener failed:`, error.message || error);
+        }
+    }
+}
@@ -0,0 +1,206 @@
+/**
+ * Telegram Output Formatting
+ *
+ * Turns raw model output into Telegram-safe MarkdownV2 messages.
+ *
+ * Problems solved:
+ * - Models emit *bold* / _italic_ loosely (unclosed markers, **double**
+ *   asterisks, snake_case words); MarkdownV2 rejects the whole message on
+ *   any unescaped special character, so we escape everything and only
+ *   keep formatting pairs that are well-formed
+ * - Telegram caps messages at 4096 characters; long answers are split on
+ *   paragraph boundaries (then lines, sentences, words) into several messages
+ * - During streaming, pages that are full get sealed so the bot can start
+ *   a new message instead of editing one that is already at the limit
+ */
+
+import { CryptoContext } from '../lib/contexts';
+import { hasNfaDisclaimer, SupportedLanguage, t } from './language';
+
+// Telegram hard limit per message (after entity parsing)
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// Room kept free on streamed pages for the header/footer added at the end
+const STREAM_PAGE_RESERVE = 200;
+
+// Characters MarkdownV2 requires to be escaped outside of entities
+const MARKDOWN_V2_SPECIAL = /[_*\[\]()~`>#+\-=|{}.!\\]/g;
+
+// Well-formed formatting spans: `code`, *bold*, _italic_ (not inside words)
+const FORMAT_SPAN = /`([^`\n]+)`|\*(?=\S)([^*\n]*?\S)\*|(?<![A-Za-z0-9\\])_(?=\S)([^_\n]*?\S)_(?![A-Za-z0-9])/g;
+
+/**
+ * A streamed response split into Telegram-sized pages.
+ */
+export interface StreamPage {
+    pageIndex: number; // Index of the page currently being written
+    pageText: string; // Raw text of the current page
+    sealedPages: string[]; // Earlier pages, final and never changed again
+    rolledOver: boolean; // True when this update sealed at least one page
+}
+
+/**
+ * Escape text for MarkdownV2 (no formatting kept).
+ */
+export function escapeMarkdownV2(text: string): string {
+    return text.replace(MARKDOWN_V2_SPECIAL, char => `\\${char}`);
+}
+
+/**
+ * Render model markdown as MarkdownV2, keeping well-formed bold, italic and
+ * inline code and escaping everything else (including unbalanced markers).
+ */
+export function renderMarkdownV2(content: string): string {
+    // Normalise GitHub-style **bold** / __italic__ to the single-marker form
+    const normalised = content
+        .replace(/\*\*(?=\S)(.+?\S)\*\*/g, '*$1*')
+        .replace(/__(?=\S)(.+?\S)__/g, '_$1_');
+
+    return renderSpans(normalised, true);
+}
+
+function renderSpans(text: string, allowNested: boolean): string {
+    let output = '';
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(FORMAT_SPAN)) {
+        const index = match.index ?? 0;
+        output += escapeMarkdownV2(text.slice(lastIndex, index));
+
+        const [, code, bold, italic] = match;
+        if (code !== undefined) {
+            output += '`' + code.replace(/[`\\]/g, char => `\\${char}`) + '`';
+        } else if (bold !== undefined) {
+            output += '*' + (allowNested ? renderSpans(bold, false) : escapeMarkdownV2(bold)) + '*';
+        } else {
+            output += '_' + escapeMarkdownV2(italic) + '_';
+        }
+
+        lastIndex = index + match[0].length;
+    }
+
+    return output + escapeMarkdownV2(text.slice(lastIndex));
+}
+
+/**
+ * Find the best place to cut `text` so the first part measures at most
+ * `limit`. Prefers paragraph breaks, then line breaks, sentence ends and
+ * spaces, and only cuts mid-word as a last resort.
+ */
+function findCutIndex(text: string, limit: number, measure: (text: string) => number): number {
+    const boundaries: Array<{ pattern: RegExp; offset: number }> = [
+        { pattern: /\n\s*\n/g, offset: 0 },
+        { pattern: /\n/g, offset: 0 },
+        { pattern: /[.!?](?=\s)/g, offset: 1 },
+        { pattern: /\s/g, offset: 0 }
+    ];
+
+    for (const { pattern, offset } of boundaries) {
+        let best = -1;
+        for (const match of text.matchAll(pattern)) {
+            const cut = (match.index ?? 0) + offset;
+            if (cut <= 0) continue;
+            if (measure(text.slice(0, cut)) > limit) break;
+            best = cut;
+        }
+        if (best > 0) return best;
+    }
+
+    // Hard cut: largest prefix that fits
+    let low = 1;
+    let high = text.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (measure(text.slice(0, mid)) <= limit) low = mid;
+        else high = mid - 1;
+    }
+
+    // Never split a surrogate pair (emoji)
+    const code = text.charCodeAt(low - 1);
+    if (low > 1 && code >= 0xd800 && code <= 0xdbff) low--;
+
+    return low;
+}
+
+/**
+ * Split raw text into chunks whose rendered size fits `limit`.
+ */
+export function splitMessage(
+    text: string,
+    limit: number = TELEGRAM_MESSAGE_LIMIT,
+    measure: (text: string) => number = chunk => renderMarkdownV2(chunk).length
+): string[] {
+    const chunks: string[] = [];
+    let rest = text.trim();
+
+    while (rest && measure(rest) > limit) {
+        const cut = findCutIndex(rest, limit, measure);
+        chunks.push(rest.slice(0, cut).trimEnd());
+        rest = rest.slice(cut).trimStart();
+    }
+
+    if (rest) chunks.push(rest);
+    return chunks;
+}
+
+/**
+ * Render a complete AI answer as one or more MarkdownV2 messages with the
+ * persona header on the first and the NFA footer (if missing) on the last.
+ * Send with `parse_mode: 'MarkdownV2'`.
+ */
+export function renderAIResponse(content: string, context: CryptoContext, language: SupportedLanguage = 'en'): string[] {
+    const header = `${escapeMarkdownV2(context.emoji)} *${escapeMarkdownV2(context.name)}*\n\n`;
+
+    const footer = hasNfaDisclaimer(content) ? '' : `\n\n_${escapeMarkdownV2(t(language, 'nfaFooter'))}_`;
+
+    const pages = splitMessage(content, TELEGRAM_MESSAGE_LIMIT - header.length - footer.length)
+        .map(renderMarkdownV2);
+
+    if (pages.length === 0) pages.push('');
+    pages[0] = header + pages[0];
+    pages[pages.length - 1] += footer;
+
+    return pages;
+}
+
+/**
+ * Tracks page boundaries while a response streams in. Sealed pages are
+ * never re-split, so messages already sent stay stable.
+ */
+export class StreamPaginator {
+    private sealedPages: string[] = [];
+    private consumed = 0; // Characters of the accumulated text in sealed pages
+
+    constructor(private readonly limit: number = TELEGRAM_MESSAGE_LIMIT - STREAM_PAGE_RESERVE) {}
+
+    /**
+     * Characters of the accumulated text already sealed into full pages.
+     */
+    get sealedLength(): number {
+        return this.consumed;
+    }
+
+    update(accumulatedText: string): StreamPage {
+        const measure = (text: string) => renderMarkdownV2(text).length;
+        let current = accumulatedText.slice(this.consumed);
+        let rolledOver = false;
+
+        while (measure(current) > this.limit) {
+            const cut = findCutIndex(current, this.limit, measure);
+            this.sealedPages.push(current.slice(0, cut).trimEnd());
+
+            const remainder = current.slice(cut);
+            const trimmed = remainder.trimStart();
+            this.consumed += cut + (remainder.length - trimmed.length);
+            current = trimmed;
+            rolledOver = true;
+        }
+
+        return {
+            pageIndex: this.sealedPages.length,
+            pageText: current,
+            sealedPages: [...this.sealedPages],
+            rolledOver
+        };
+    }
+}
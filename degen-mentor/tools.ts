@@ -0,0 +1,266 @@
+/**
+ * AI Tool Registry
+ *
+ * OpenAI-style function calling for the mentor. Tools registered here are
+ * offered to the text model; when it requests one, the call is executed
+ * and the result fed back so the answer is grounded in real data instead
+ * of a guess ("is 0xabc... safe?" runs an actual Risk Radar scan).
+ *
+ * Built-in tools:
+ * - scan_token: Risk Radar security scan (riskRadar.ts)
+ * - analyze_chart_image: registered by ai.ts, reads images attached to the message
+ */
+
+import { ProviderMessage, ToolCall, ToolDefinition } from './providers';
+import { scanToken } from './riskRadar';
+import { UserTier } from './usage';
+
+// Type definitions
+export interface ToolContext {
+    userId?: string;
+    tier?: UserTier; // Caller's tier, for rate limits and budgets of nested model calls
+    images: string[]; // Base64 images attached to the user's message
+    signal?: AbortSignal;
+}
+
+export interface AITool {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON Schema for the arguments
+    isAvailable?: (context: ToolContext) => boolean;
+    // Arguments have been checked against `parameters` before the call
+    execute: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+interface PropertySchema {
+    type?: string;
+    enum?: unknown[];
+}
+
+// Tool results are fed back into the prompt; keep them bounded
+const MAX_TOOL_OUTPUT_CHARS = 4000;
+
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+    string: value => typeof value === 'string',
+    integer: value => Number.isInteger(value),
+    number: value => typeof value === 'number' && Number.isFinite(value),
+    boolean: value => typeof value === 'boolean',
+    array: value => Array.isArray(value),
+    object: value => isPlainObject(value)
+};
+
+const registry = new Map<string, AITool>();
+
+/**
+ * Register (or replace) a tool.
+ */
+export function registerTool(tool: AITool): void {
+    registry.set(tool.name, tool);
+}
+
+export function unregisterTool(name: string): void {
+    registry.delete(name);
+}
+
+/**
+ * Tool definitions to send with a request, filtered by availability.
+ */
+export function getToolDefinitions(context: ToolContext): ToolDefinition[] {
+    return [...registry.values()]
+        .filter(tool => !tool.isAvailable || tool.isAvailable(context))
+        .map(tool => ({
+            type: 'function' as const,
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+            }
+        }));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check arguments against the tool's JSON Schema (required properties,
+ * types and enums - the subset the tools use). Returns the first problem,
+ * or undefined when the arguments are valid. Unknown properties are ignored.
+ */
+function validateArgs(schema: Record<string, unknown>, args: Record<string, unknown>): string | undefined {
+    const properties = (isPlainObject(schema.properties) ? schema.properties : {}) as Record<string, PropertySchema>;
+    const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+
+    for (const name of required) {
+        if (args[name] === undefined || args[name] === null || args[name] === '') {
+            return `${name} is required`;
+        }
+    }
+
+    for (const [name, value] of Object.entries(args)) {
+        const property = properties[name];
+        if (!property || value === undefined || value === null) continue;
+
+        const check = property.type ? TYPE_CHECKS[property.type] : undefined;
+        if (check && !check(value)) {
+            return `${name} must be of type ${property.type}`;
+        }
+        if (property.enum && !property.enum.includes(value)) {
+            return `${name} must be one of: ${property.enum.join(', ')}`;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Shorten long strings and arrays throughout a JSON value. Truncated
+ * arrays end with a note of how many items were dropped.
+ */
+function shrinkValue(value: unknown, maxString: number, maxItems: number): unknown {
+    if (typeof value === 'string') {
+        return value.length > maxString ? value.slice(0, maxString) + '...' : value;
+    }
+    if (Array.isArray(value)) {
+        const items = value.slice(0, maxItems).map(item => shrinkValue(item, maxString, maxItems));
+        if (value.length > maxItems) items.push(`(${value.length - maxItems} more)`);
+        return items;
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, shrinkValue(item, maxString, maxItems)])
+        );
+    }
+    return value;
+}
+
+/**
+ * Serialise a tool result within MAX_TOOL_OUTPUT_CHARS. Oversized results
+ * are trimmed field by field (tighter each pass) so the model always gets
+ * valid JSON, with `truncated: true` set on trimmed objects.
+ */
+function serialiseToolResult(result: unknown): string {
+    if (typeof result === 'string') {
+        return result.length > MAX_TOOL_OUTPUT_CHARS ? result.slice(0, MAX_TOOL_OUTPUT_CHARS) + '...' : result;
+    }
+
+    let output = JSON.stringify(result ?? null);
+    if (output.length <= MAX_TOOL_OUTPUT_CHARS) return output;
+
+    // Round-trip first so dates and other toJSON values are plain JSON
+    const value: unknown = JSON.parse(output);
+    for (let maxString = 1000, maxItems = 20; maxString >= 20; maxString /= 2, maxItems = Math.max(1, maxItems / 2)) {
+        const shrunk = shrinkValue(value, maxString, maxItems);
+        output = JSON.stringify(isPlainObject(shrunk) ? { ...shrunk, truncated: true } : shrunk);
+        if (output.length <= MAX_TOOL_OUTPUT_CHARS) return output;
+    }
+
+    return JSON.stringify({ error: 'Tool result was too large to return' });
+}
+
+/**
+ * Execute a single tool call. Never throws: failures are returned to the
+ * model as an error payload so it can explain the problem to the user.
+ */
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+    const tool = registry.get(call.function.name);
+    if (!tool) {
+        return JSON.stringify({ error: `Unknown tool: ${call.function.name}` });
+    }
+
+    let args: unknown;
+    try {
+        args = JSON.parse(call.function.arguments || '{}');
+    } catch {
+        return JSON.stringify({ error: 'Arguments were not valid JSON' });
+    }
+
+    if (!isPlainObject(args)) {
+        return JSON.stringify({ error: 'Arguments must be a JSON object' });
+    }
+
+    const invalid = validateArgs(tool.parameters, args);
+    if (invalid) {
+        return JSON.stringify({ error: `Invalid arguments for ${tool.name}: ${invalid}` });
+    }
+
+    const startTime = Date.now();
+
+    try {
+        const result = await tool.execute(args, context);
+        console.log(`[Tools] ${tool.name} completed in ${Date.now() - startTime}ms`);
+        return serialiseToolResult(result);
+    } catch (error: any) {
+        console.error(`[Tools] ${tool.name} failed:`, error.message || error);
+        return JSON.stringify({ error: error.message || 'Tool failed' });
+    }
+}
+
+/**
+ * Execute every call from an assistant turn, returning the `tool` messages
+ * to append to the conversation (in call order).
+ */
+export async function runToolCalls(calls: ToolCall[], context: ToolContext): Promise<ProviderMessage[]> {
+    const outputs = await Promise.all(calls.map(call => executeToolCall(call, context)));
+    return calls.map((call, index) => ({
+        role: 'tool' as const,
+        tool_call_id: call.id,
+        content: outputs[index]
+    }));
+}
+
+// ============================================
+// BUILT-IN TOOLS
+// ============================================
+
+registerTool({
+    name: 'scan_token',
+    description: 'Run a Risk Radar security scan on a token contract (honeypot, dev holdings, liquidity lock, ' +
+        'contract verification, risky permissions). Use whenever the user asks whether a token address is safe.',
+    parameters: {
+        type: 'object',
+        properties: {
+            address: {
+                type: 'string',
+                description: 'Token contract address (0x... for EVM chains, base58 for Solana)'
+            },
+            chain: {
+                type: 'string',
+                enum: ['eth', 'bsc', 'base', 'arbitrum', 'polygon', 'sol'],
+                description: 'Chain the user named, if any. Omit to search all supported EVM chains.'
+            }
+        },
+        required: ['address']
+    },
+    execute: async args => {
+        const address = typeof args.address === 'string' ? args.address.trim() : '';
+        if (!address) {
+            return { error: 'address is required' };
+        }
+
+        const chain = typeof args.chain === 'string' ? args.chain : undefined;
+        const scan = await scanToken(address, { chain });
+        return {
+            found: scan.found,
+            address: scan.address,
+            chain: scan.chainName,
+            otherChains: scan.otherChains,
+            name: scan.name,
+            symbol: scan.symbol,
+            honeypot: scan.honeypot,
+            devHoldsPercent: scan.devHoldsPercent,
+            liquidityLocked: scan.liquidityLocked,
+            contractVerified: scan.contractVerified,
+            liquidity: scan.liquidity,
+            riskScore: scan.riskScore,
+            riskLevel: scan.riskLevel,
+            verdict: scan.verdict,
+            flags: scan.flags,
+            scoreBreakdown: scan.contributions?.map(contribution => `${contribution.weight > 0 ? '+' : ''}${contribution.weight} ${contribution.message}`),
+            solana: scan.solana,
+            sources: scan.sources,
+            disagreements: scan.disagreements,
+            confidence: scan.confidence
+        };
+    }
+});
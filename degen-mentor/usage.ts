@@ -0,0 +1,316 @@
+/**
+ * Usage & Cost Accounting
+ *
+ * Tracks token usage and estimated spend for every AI call, persisted as a
+ * per-user, per-day ledger behind a storage interface.
+ *
+ * Uses:
+ * - Daily budget enforcement for free users
+ * - Cost attribution per persona (which modes burn the most money)
+ *
+ * Storage:
+ * - InMemoryUsageStore: default, single-process (dev/tests)
+ * - PostgresUsageStore: production, backed by the `ai_usage` table
+ *
+ * Costs are estimates from list prices; token counts come from the provider
+ * when reported and fall back to a ~4 chars/token heuristic otherwise.
+ */
+
+import { SqlClient } from './storage';
+
+// Type definitions
+export type UserTier = 'free' | 'paid';
+
+export interface UsageSummary {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    estimated: boolean; // true when token counts were not reported by the provider
+}
+
+export interface UsageRecord {
+    userId: string;
+    date: string; // YYYY-MM-DD (UTC)
+    persona: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    createdAt: number;
+}
+
+export interface DailyUsage {
+    requests: number;
+    totalTokens: number;
+    costUsd: number;
+}
+
+/**
+ * Ledger storage contract.
+ */
+export interface UsageStore {
+    record(entry: UsageRecord): Promise<void>;
+    getDailyUsage(userId: string, date: string): Promise<DailyUsage>;
+    getPersonaCosts(date: string): Promise<Record<string, number>>;
+}
+
+// Approximate list prices in USD per 1M tokens
+const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+    'deepseek/deepseek-chat': { prompt: 0.30, completion: 0.85 },
+    'google/gemini-2.5-flash': { prompt: 0.30, completion: 2.50 },
+    'meta-llama/llama-3.3-70b-instruct': { prompt: 0.13, completion: 0.40 },
+    'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.60 }
+};
+
+// Unknown models are priced conservatively so budgets still bite
+const DEFAULT_PRICING = { prompt: 1.00, completion: 3.00 };
+
+// Daily budgets (USD)
+const FREE_DAILY_BUDGET_USD = parseFloat(process.env.AI_FREE_DAILY_BUDGET_USD || '0.05');
+
+/**
+ * Rough token estimate for providers that do not report usage.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated cost of a call in USD.
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = MODEL_PRICING[model] || DEFAULT_PRICING;
+    return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+}
+
+/**
+ * Sum provider-reported token counts across several calls (e.g. tool loops).
+ */
+export function addReportedUsage(
+    total: { promptTokens: number; completionTokens: number } | undefined,
+    usage: { promptTokens: number; completionTokens: number } | undefined
+): { promptTokens: number; completionTokens: number } | undefined {
+    if (!usage) return total;
+    return {
+        promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+        completionTokens: (total?.completionTokens || 0) + usage.completionTokens
+    };
+}
+
+/**
+ * Current UTC day as YYYY-MM-DD.
+ */
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * In-memory ledger (lost on restart).
+ */
+export class InMemoryUsageStore implements UsageStore {
+    private records: UsageRecord[] = [];
+
+    async record(entry: UsageRecord): Promise<void> {
+        this.records.push(entry);
+    }
+
+    async getDailyUsage(userId: string, date: string): Promise<DailyUsage> {
+        const usage: DailyUsage = { requests: 0, totalTokens: 0, costUsd: 0 };
+        for (const entry of this.records) {
+            if (entry.userId !== userId || entry.date !== date) continue;
+            usage.requests++;
+            usage.totalTokens += entry.promptTokens + entry.completionTokens;
+            usage.costUsd += entry.costUsd;
+        }
+        return usage;
+    }
+
+    async getPersonaCosts(date: string): Promise<Record<string, number>> {
+        const costs: Record<string, number> = {};
+        for (const entry of this.records) {
+            if (entry.date !== date) continue;
+            costs[entry.persona] = (costs[entry.persona] || 0) + entry.costUsd;
+        }
+        return costs;
+    }
+}
+
+/**
+ * Postgres ledger.
+ *
+ * Table: ai_usage (migrations/0001_ai_stores.sql)
+ */
+export class PostgresUsageStore implements UsageStore {
+    constructor(private readonly sql: SqlClient) {}
+
+    async record(entry: UsageRecord): Promise<void> {
+        await this.sql.query(
+            `INSERT INTO ai_usage (user_id, usage_date, persona, model, prompt_tokens, completion_tokens, cost_usd, created_at)
+             VALUES ($1, $2::date, $3, $4, $5, $6, $7, to_timestamp($8::double precision / 1000.0))`,
+            [entry.userId, entry.date, entry.persona, entry.model, entry.promptTokens, entry.completionTokens, entry.costUsd, entry.createdAt]
+        );
+    }
+
+    async getDailyUsage(userId: string, date: string): Promise<DailyUsage> {
+        const { rows } = await this.sql.query<{ requests: string; total_tokens: string | null; cost_usd: string | null }>(
+            `SELECT COUNT(*) AS requests,
+                    SUM(prompt_tokens + completion_tokens) AS total_tokens,
+                    SUM(cost_usd) AS cost_usd
+             FROM ai_usage
+             WHERE user_id = $1 AND usage_date = $2::date`,
+            [userId, date]
+        );
+        const row = rows[0];
+        return {
+            requests: parseInt(row?.requests || '0'),
+            totalTokens: parseInt(row?.total_tokens || '0'),
+            costUsd: parseFloat(row?.cost_usd || '0')
+        };
+    }
+
+    async getPersonaCosts(date: string): Promise<Record<string, number>> {
+        const { rows } = await this.sql.query<{ persona: string; cost_usd: string }>(
+            `SELECT persona, SUM(cost_usd) AS cost_usd
+             FROM ai_usage
+             WHERE usage_date = $1::date
+             GROUP BY persona`,
+            [date]
+        );
+        const costs: Record<string, number> = {};
+        for (const row of rows) {
+            costs[row.persona] = parseFloat(row.cost_usd);
+        }
+        return costs;
+    }
+}
+
+let usageStore: UsageStore = new InMemoryUsageStore();
+
+/**
+ * Replace the ledger backend (e.g. PostgresUsageStore in production).
+ */
+export function setUsageStore(store: UsageStore): void {
+    usageStore = store;
+}
+
+export function getUsageStore(): UsageStore {
+    return usageStore;
+}
+
+/**
+ * Check whether a user still has budget left today.
+ * Paid users are not budgeted; ledger errors fail open.
+ */
+export async function checkDailyBudget(
+    userId: string,
+    tier: UserTier
+): Promise<{ allowed: boolean; spentUsd: number; limitUsd: number }> {
+    if (tier === 'paid') {
+        return { allowed: true, spentUsd: 0, limitUsd: Infinity };
+    }
+
+    try {
+        const usage = await usageStore.getDailyUsage(userId, today());
+        return {
+            allowed: usage.costUsd < FREE_DAILY_BUDGET_USD,
+            spentUsd: usage.costUsd,
+            limitUsd: FREE_DAILY_BUDGET_USD
+        };
+    } catch (error: any) {
+        console.error('[Usage] Budget check failed:', error.message || error);
+        return { allowed: true, spentUsd: 0, limitUsd: FREE_DAILY_BUDGET_USD };
+    }
+}
+
+/**
+ * Build the usage summary for a call and append it to the ledger.
+ * Pass reported token counts when available, otherwise the prompt and
+ * completion text to estimate from. Ledger errors are logged, never thrown.
+ */
+export async function recordUsage(entry: {
+    userId?: string;
+    persona: string;
+    model: string;
+    reported?: { promptTokens: number; completionTokens: number };
+    promptText: string;
+    completionText: string;
+}): Promise<UsageSummary> {
+    const promptTokens = entry.reported?.promptTokens ?? estimateTokens(entry.promptText);
+    const completionTokens = entry.reported?.completionTokens ?? estimateTokens(entry.completionText);
+    const costUsd = estimateCost(entry.model, promptTokens, completionTokens);
+
+    const summary: UsageSummary = {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        costUsd,
+        estimated: !entry.reported
+    };
+
+    console.log(`[Usage] ${entry.persona} via ${entry.model}: ${summary.totalTokens} tokens (~$${costUsd.toFixed(5)})`);
+
+    if (entry.userId) {
+        try {
+            await usageStore.record({
+                userId: entry.userId,
+                date: today(),
+                persona: entry.persona,
+                model: entry.model,
+                promptTokens,
+                completionTokens,
+                costUsd,
+                createdAt: Date.now()
+            });
+        } catch (error: any) {
+            console.error('[Usage] Failed to record usage:', error.message || error);
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * Usage of one request across its model rounds (tool loops, continuations,
+ * compliance regenerations). Recorded once, on whichever path the request
+ * ends, so requests that fail after some rounds still count what they spent.
+ */
+export class RequestUsage {
+    private reported?: { promptTokens: number; completionTokens: number };
+    private rounds = 0;
+    private completionText = '';
+    private summary?: UsageSummary;
+
+    constructor(private readonly entry: { userId?: string; persona: string; promptText: () => string }) {}
+
+    /** A model round has run (or started streaming): its tokens are spent. */
+    round(usage?: { promptTokens: number; completionTokens: number }, content?: string | null): void {
+        this.rounds++;
+        this.add(usage);
+        this.completionText += content || '';
+    }
+
+    /** Usage reported mid-round (streaming). */
+    add(usage?: { promptTokens: number; completionTokens: number }): void {
+        this.reported = addReportedUsage(this.reported, usage);
+    }
+
+    /**
+     * Append the request's usage to the ledger (first call only). Undefined
+     * when no model round ran. `completionText` replaces the text collected
+     * from rounds for estimation.
+     */
+    async record(model: string, completionText?: string): Promise<UsageSummary | undefined> {
+        if (this.summary || this.rounds === 0) return this.summary;
+
+        this.summary = await recordUsage({
+            userId: this.entry.userId,
+            persona: this.entry.persona,
+            model,
+            reported: this.reported,
+            promptText: this.entry.promptText(),
+            completionText: completionText ?? this.completionText
+        });
+        return this.summary;
+    }
+}
@@ -397,6 +397,11 @@ class UnifiedDatabaseClient {
     return this.executeWithFailover((client) => client.$transaction(operations));
   }
 
+  // Raw SQL with bound $1, $2 parameters (used by stores that are not Prisma models)
+  async $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T> {
+    return this.executeWithFailover((client) => client.$queryRawUnsafe<T>(query, ...values));
+  }
+
   async $connect() {
     return this.executeWithFailover((client) => client.$connect());
   }